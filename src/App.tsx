@@ -3,10 +3,15 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import WalletProvider from "./components/WalletProvider";
 import Landing from "./pages/Landing";
 import Index from "./pages/Index";
 import Analysis from "./pages/Analysis";
 import ShareReport from "./pages/ShareReport";
+import History from "./pages/History";
+import Compare from "./pages/Compare";
+import Present from "./pages/Present";
+import Ledger from "./pages/Ledger";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -14,18 +19,24 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Landing />} />
-          <Route path="/app" element={<Index />} />
-          <Route path="/analyze" element={<Analysis />} />
-          <Route path="/report/:shareId" element={<ShareReport />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <WalletProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Landing />} />
+            <Route path="/app" element={<Index />} />
+            <Route path="/analyze" element={<Analysis />} />
+            <Route path="/report/:shareId" element={<ShareReport />} />
+            <Route path="/report/:shareId/present" element={<Present />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/compare/:a/:b" element={<Compare />} />
+            <Route path="/ledger" element={<Ledger />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </WalletProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
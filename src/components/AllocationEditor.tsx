@@ -0,0 +1,75 @@
+import {
+  ALLOCATION_PRESETS, plannedSpend, rebalance, type Allocation,
+} from '@/lib/allocation';
+import type { AnalysisKey } from '@/lib/analysis-types';
+
+export interface AllocationAgent {
+  key: AnalysisKey;
+  name: string;
+  color: string;
+}
+
+interface AllocationEditorProps {
+  agents: AllocationAgent[];
+  value: Allocation;
+  budget: number;
+  onChange: (next: Allocation) => void;
+}
+
+/** Presets plus one slider per agent; moving a slider rebalances the rest. */
+export default function AllocationEditor({ agents, value, budget, onChange }: AllocationEditorProps) {
+  const planned = plannedSpend(value, budget);
+  const activePreset = ALLOCATION_PRESETS.find((p) => agents.every(({ key }) => p.split[key] === value[key]));
+
+  return (
+    <div className="ae-root">
+      <div className="ae-presets">
+        {ALLOCATION_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            className={'ae-preset' + (activePreset?.id === preset.id ? ' ae-preset-on' : '')}
+            onClick={() => onChange(preset.split)}
+          >
+            {preset.label}
+          </button>
+        ))}
+        {!activePreset && <span className="ae-custom">custom</span>}
+      </div>
+
+      {agents.map(({ key, name, color }) => (
+        <div key={key} className="ae-row">
+          <div className="ae-row-head">
+            <span className="ae-name" style={{ color }}>{name.replace(' Agent', '')}</span>
+            <span className="ae-value">
+              {value[key]}% <span className="ae-hbar">· {planned[key].toFixed(3)} ℏ</span>
+            </span>
+          </div>
+          <input
+            type="range" min={0} max={100} step={5} value={value[key]}
+            aria-label={`${name} share of budget`}
+            onChange={(e) => onChange(rebalance(value, key, Number(e.target.value)))}
+            style={{ width: '100%', accentColor: color }}
+          />
+        </div>
+      ))}
+
+      <style>{`
+        .ae-root { display: flex; flex-direction: column; gap: 10px; }
+        .ae-presets { display: flex; flex-wrap: wrap; gap: 6px; margin-bottom: 4px; align-items: center; }
+        .ae-preset {
+          padding: 4px 10px; background: transparent;
+          border: 1px solid rgba(136,181,252,0.15); border-radius: 6px;
+          color: rgba(136,181,252,0.55); font-family: 'JetBrains Mono', monospace; font-size: 10px;
+          cursor: pointer; transition: all 0.2s;
+        }
+        .ae-preset:hover { border-color: rgba(136,181,252,0.4); color: #88B5FC; }
+        .ae-preset-on { color: #88B5FC; border-color: rgba(136,181,252,0.5); background: rgba(136,181,252,0.08); }
+        .ae-custom { font-family: 'JetBrains Mono', monospace; font-size: 10px; color: #FBBF24; letter-spacing: 1px; }
+        .ae-row-head { display: flex; justify-content: space-between; align-items: baseline; }
+        .ae-name { font-size: 11px; font-weight: 700; letter-spacing: 1px; text-transform: uppercase; font-family: 'JetBrains Mono', monospace; }
+        .ae-value { font-family: 'Orbitron', sans-serif; font-size: 12px; color: #E8F4FF; }
+        .ae-hbar { font-family: 'JetBrains Mono', monospace; font-size: 10px; color: rgba(232,244,255,0.35); }
+      `}</style>
+    </div>
+  );
+}
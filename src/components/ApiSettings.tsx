@@ -0,0 +1,150 @@
+import { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { defaultApiBase, getApiBase, getApiBaseOverride, setApiBaseOverride } from '@/lib/api';
+
+const isHttpUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Gear menu for pointing this browser at another PayStream backend.
+ * Takes effect from the next request; the override lives in localStorage.
+ */
+export default function ApiSettings() {
+  const [open, setOpen]   = useState(false);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState('');
+  const [overridden, setOverridden] = useState(() => !!getApiBaseOverride());
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  /* close on outside click */
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    if (open) document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const toggle = () => {
+    if (!open) { setDraft(getApiBase()); setError(''); }
+    setOpen((v) => !v);
+  };
+
+  const save = () => {
+    const url = draft.trim();
+    if (!isHttpUrl(url)) { setError('Enter a full http(s) URL.'); return; }
+    setApiBaseOverride(url);
+    setOverridden(!!getApiBaseOverride());
+    setOpen(false);
+  };
+
+  const resetToDefault = () => {
+    setApiBaseOverride(null);
+    setOverridden(false);
+    setDraft(defaultApiBase());
+    setError('');
+  };
+
+  return (
+    <div style={{ position: 'relative', display: 'inline-block' }} ref={panelRef}>
+      <button
+        className={'as-btn' + (overridden ? ' as-btn-custom' : '')}
+        onClick={toggle}
+        title={overridden ? 'Using a custom API server' : 'API server settings'}
+        aria-expanded={open}
+      >
+        ⚙ api{overridden && <span className="as-dot" />}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="as-panel"
+            initial={{ opacity: 0, y: -8, scale: 0.96 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -8, scale: 0.96 }}
+            transition={{ type: 'spring', stiffness: 420, damping: 30 }}
+          >
+            <div className="as-title">API Server</div>
+            <label className="as-label" htmlFor="as-url">Base URL</label>
+            <input
+              id="as-url"
+              className="as-input"
+              value={draft}
+              spellCheck={false}
+              onChange={(e) => { setDraft(e.target.value); setError(''); }}
+              onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+            />
+            {error && <div className="as-error">{error}</div>}
+            <div className="as-default">default: {defaultApiBase()}</div>
+            <div className="as-actions">
+              <button className="as-action" onClick={resetToDefault} disabled={!overridden && draft.trim() === defaultApiBase()}>
+                Reset to default
+              </button>
+              <button className="as-action as-save" onClick={save}>Save</button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <style>{`
+        .as-btn {
+          display: inline-flex; align-items: center; gap: 6px;
+          padding: 5px 12px; background: transparent;
+          border: 1px solid rgba(136,181,252,0.15); border-radius: 6px;
+          color: rgba(136,181,252,0.55); font-size: 11px; letter-spacing: 1px;
+          font-family: 'JetBrains Mono', monospace; cursor: pointer; transition: all 0.2s;
+        }
+        .as-btn:hover { border-color: rgba(136,181,252,0.4); color: #88B5FC; }
+        .as-btn-custom { color: #FBBF24; border-color: rgba(251,191,36,0.3); }
+        .as-dot { width: 6px; height: 6px; border-radius: 50%; background: #FBBF24; }
+
+        .as-panel {
+          position: absolute; top: calc(100% + 10px); right: 0;
+          width: 320px; z-index: 9999; text-align: left;
+          background: rgba(4,12,28,0.95);
+          border: 1px solid rgba(136,181,252,0.15);
+          border-radius: 14px; padding: 18px;
+          backdrop-filter: blur(32px);
+          box-shadow: 0 24px 80px rgba(0,0,0,0.6), 0 0 0 1px rgba(136,181,252,0.07);
+        }
+        .as-title {
+          font-family: 'Orbitron', sans-serif; font-size: 12px; font-weight: 700;
+          color: #E8F4FF; letter-spacing: 1px; margin-bottom: 14px;
+        }
+        .as-label {
+          display: block; margin-bottom: 6px;
+          font-family: 'JetBrains Mono', monospace; font-size: 10px;
+          color: rgba(232,244,255,0.35); letter-spacing: 1.5px; text-transform: uppercase;
+        }
+        .as-input {
+          width: 100%; box-sizing: border-box; padding: 9px 11px;
+          background: rgba(255,255,255,0.03); border: 1px solid rgba(136,181,252,0.2); border-radius: 8px;
+          color: #E8F4FF; font-family: 'JetBrains Mono', monospace; font-size: 12px; outline: none;
+        }
+        .as-input:focus { border-color: rgba(136,181,252,0.5); }
+        .as-error { margin-top: 8px; font-size: 11px; color: rgba(252,165,165,0.9); }
+        .as-default {
+          margin-top: 8px; font-family: 'JetBrains Mono', monospace; font-size: 10px;
+          color: rgba(232,244,255,0.25); word-break: break-all;
+        }
+        .as-actions { display: flex; justify-content: flex-end; gap: 8px; margin-top: 14px; }
+        .as-action {
+          padding: 7px 12px; background: transparent;
+          border: 1px solid rgba(232,244,255,0.1); border-radius: 7px;
+          color: rgba(232,244,255,0.45); font-family: 'DM Sans', sans-serif; font-size: 12px; font-weight: 600;
+          cursor: pointer; transition: all 0.2s;
+        }
+        .as-action:hover:not(:disabled) { color: #E8F4FF; border-color: rgba(232,244,255,0.25); }
+        .as-action:disabled { opacity: 0.4; cursor: default; }
+        .as-save { color: #88B5FC; border-color: rgba(136,181,252,0.35); }
+      `}</style>
+    </div>
+  );
+}
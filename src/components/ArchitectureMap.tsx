@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import MermaidDiagram from './MermaidDiagram';
+import DiagramActions from './DiagramActions';
+import { usePanZoom } from '@/hooks/use-pan-zoom';
+import { sanitizeChart } from '@/lib/mermaid';
+import { matchNodesToModules, nodeIdFromElement, type DiagramNode } from '@/lib/architecture-links';
+import type { Module } from '@/lib/analysis-types';
+
+interface RenderedNode extends DiagramNode {
+  el: Element;
+}
+
+interface Props {
+  chart?: string;
+  modules: Module[];
+  /** Module whose node(s) should be highlighted, by index into `modules`. */
+  highlightedModule: number | null;
+  onSelectModule: (index: number) => void;
+  /** File name stem for diagram exports. */
+  exportName: string;
+  /** See MermaidDiagram: only for charts from the user's live session. */
+  trusted?: boolean;
+}
+
+/** Pannable, zoomable architecture diagram whose nodes link to module cards. */
+export default function ArchitectureMap({ chart, modules, highlightedModule, onSelectModule, exportName, trusted = false }: Props) {
+  const { viewportRef, contentRef, transform, zoomIn, zoomOut, fit, reset, wasDrag, handlers } =
+    usePanZoom<HTMLDivElement, HTMLDivElement>();
+  const [nodes, setNodes] = useState<RenderedNode[]>([]);
+  const [svg, setSvg] = useState<SVGSVGElement | null>(null);
+  const links = useMemo(() => matchNodesToModules(nodes, modules), [nodes, modules]);
+  const onSelectRef = useRef(onSelectModule);
+  onSelectRef.current = onSelectModule;
+
+  const handleRender = (svg: SVGSVGElement) => {
+    // Natural size, so zoom is ours rather than the container's max-width
+    const box = svg.viewBox.baseVal;
+    if (box && box.width) {
+      svg.style.maxWidth = 'none';
+      svg.style.width = box.width + 'px';
+      svg.style.height = box.height + 'px';
+    }
+    const found: RenderedNode[] = [];
+    svg.querySelectorAll('g.node').forEach((el) => {
+      const id = nodeIdFromElement(el);
+      if (id) found.push({ id, label: el.textContent?.trim() ?? '', el });
+    });
+    setNodes(found);
+    setSvg(svg);
+    requestAnimationFrame(fit);
+  };
+
+  // Node classes and click handlers follow the current links and highlight
+  useEffect(() => {
+    const cleanups = nodes.map(({ id, el }) => {
+      const moduleIndex = links[id];
+      const linked = moduleIndex !== undefined;
+      el.classList.toggle('am-node-linked', linked);
+      el.classList.toggle('am-node-active', linked && moduleIndex === highlightedModule);
+      if (!linked) return () => {};
+      const onClick = () => { if (!wasDrag()) onSelectRef.current(moduleIndex); };
+      el.addEventListener('click', onClick);
+      return () => el.removeEventListener('click', onClick);
+    });
+    return () => cleanups.forEach((cleanup) => cleanup());
+  }, [nodes, links, highlightedModule, wasDrag]);
+
+  const linkedCount = Object.keys(links).length;
+
+  return (
+    <div className="am-root">
+      <div ref={viewportRef} className="am-viewport" {...handlers}>
+        <div
+          ref={contentRef}
+          className="am-content"
+          style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}
+        >
+          <MermaidDiagram chart={chart} trusted={trusted} onRender={handleRender} />
+        </div>
+      </div>
+
+      <div className="am-bar">
+        <span className="am-hint">
+          {linkedCount > 0 ? 'click a node to jump to its module · ' : ''}drag to pan · scroll to zoom
+        </span>
+        <div className="am-controls">
+          <button className="am-btn" onClick={zoomOut} title="Zoom out">−</button>
+          <span className="am-scale">{Math.round(transform.scale * 100)}%</span>
+          <button className="am-btn" onClick={zoomIn} title="Zoom in">+</button>
+          <button className="am-btn" onClick={fit} title="Fit to screen">fit</button>
+          <button className="am-btn" onClick={reset} title="Actual size">1:1</button>
+        </div>
+      </div>
+      <div className="am-exports">
+        <DiagramActions source={sanitizeChart(chart ?? '')} svg={svg} fileStem={exportName} />
+      </div>
+
+      <style>{`
+        .am-root { background: #0d1117; }
+        .am-viewport { position: relative; height: 460px; overflow: hidden; cursor: grab; touch-action: none; user-select: none; }
+        .am-viewport:active { cursor: grabbing; }
+        .am-content { position: absolute; top: 0; left: 0; transform-origin: 0 0; }
+        .am-node-linked { cursor: pointer; }
+        .am-node-linked:hover rect, .am-node-linked:hover polygon, .am-node-linked:hover circle, .am-node-linked:hover path {
+          stroke: #88B5FC !important;
+        }
+        .am-node-active rect, .am-node-active polygon, .am-node-active circle, .am-node-active path {
+          stroke: #FBBF24 !important; stroke-width: 2.5px !important;
+        }
+        .am-bar {
+          display: flex; justify-content: space-between; align-items: center; gap: 12px;
+          padding: 8px 14px; border-top: 1px solid rgba(255,255,255,0.06); font-family: 'JetBrains Mono', monospace;
+        }
+        .am-exports { padding: 0 14px 10px; }
+        .am-hint { font-size: 10px; color: rgba(232,244,255,0.25); }
+        .am-controls { display: flex; align-items: center; gap: 6px; }
+        .am-scale { font-size: 10px; color: rgba(232,244,255,0.4); min-width: 38px; text-align: center; }
+        .am-btn {
+          padding: 3px 9px; background: transparent; border: 1px solid rgba(136,181,252,0.15); border-radius: 6px;
+          color: rgba(136,181,252,0.6); font-family: inherit; font-size: 11px; cursor: pointer;
+        }
+        .am-btn:hover { border-color: rgba(136,181,252,0.4); color: #88B5FC; }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback } from 'react';
+import { base64ToHex, fetchAuditTrail, type AuditEntry, type AuditTrail } from '@/lib/mirror-node';
+import { hashscanTopicUrl } from '@/lib/hedera-network';
+
+// New messages reach the mirror node a few seconds after consensus
+const LIVE_REFRESH_MS = 8000;
+
+const shortHash = (hex: string) => (hex.length > 24 ? `${hex.slice(0, 12)}…${hex.slice(-8)}` : hex);
+
+// Structured steps read as "type · key: value …"; anything else is shown as logged
+function summarize(entry: AuditEntry): { label: string; detail: string } {
+  if (!entry.data) return { label: 'message', detail: entry.text || '(binary payload)' };
+  const { type, event, ...rest } = entry.data;
+  const detail = Object.entries(rest)
+    .filter(([, v]) => ['string', 'number', 'boolean'].includes(typeof v))
+    .map(([k, v]) => `${k}: ${v}`)
+    .join(' · ');
+  return { label: String(type ?? event ?? 'step'), detail: detail.length > 160 ? detail.slice(0, 157) + '…' : detail };
+}
+
+/**
+ * The run's HCS topic as a timeline, read straight from the mirror node.
+ * `live` keeps refreshing while the run is still logging steps.
+ */
+export default function AuditTrailPanel({ topicId, live = false }: { topicId: string; live?: boolean }) {
+  const [trail, setTrail]     = useState<AuditTrail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError]     = useState('');
+
+  // Live refreshes run quietly; only a first or user-requested load shows as loading
+  const load = useCallback(async (quiet = false) => {
+    if (!quiet) setLoading(true);
+    try {
+      setTrail(await fetchAuditTrail(topicId));
+      setError('');
+    } catch (e) {
+      setError('Could not read the audit trail: ' + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setLoading(false);
+    }
+  }, [topicId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  useEffect(() => {
+    if (!live) return;
+    const id = setInterval(() => load(true), LIVE_REFRESH_MS);
+    return () => clearInterval(id);
+  }, [live, load]);
+
+  const entries = trail?.entries ?? [];
+
+  return (
+    <div className="at-panel">
+      <div className="at-head">
+        <div>
+          <div className="at-title">◇ HCS AUDIT TRAIL</div>
+          <a className="at-topic" href={hashscanTopicUrl(topicId)} target="_blank" rel="noopener noreferrer">
+            topic {topicId} ↗
+          </a>
+        </div>
+        <div className="at-head-right">
+          {trail && entries.length > 0 && (
+            <span className={'at-chain ' + (trail.intact ? 'at-ok' : 'at-bad')}>
+              {!trail.intact ? '⚠ chain broken'
+                : trail.hashesChecked === entries.length ? `✓ ${entries.length} messages · running hashes verified`
+                : `✓ ${entries.length} messages · sequence intact`}
+            </span>
+          )}
+          <button className="at-refresh" onClick={() => load()} disabled={loading}>{loading ? 'loading…' : '↻ refresh'}</button>
+        </div>
+      </div>
+
+      {error && <div className="at-error">{error}</div>}
+      {!error && !loading && entries.length === 0 && (
+        <div className="at-empty">No messages on this topic yet{live ? ' — steps appear here as they reach consensus.' : '.'}</div>
+      )}
+
+      {entries.length > 0 && (
+        <ol className="at-list">
+          {entries.map((entry) => {
+            const { label, detail } = summarize(entry);
+            const hash = base64ToHex(entry.runningHash);
+            return (
+              <li key={entry.sequenceNumber} className={'at-entry' + (entry.problem ? ' at-entry-bad' : '')}>
+                <span className="at-seq">#{entry.sequenceNumber}</span>
+                <div className="at-body">
+                  <div className="at-line">
+                    <span className="at-label">{label}</span>
+                    {entry.consensusAt && <span className="at-time">{new Date(entry.consensusAt).toLocaleTimeString()}</span>}
+                  </div>
+                  {detail && <div className="at-detail">{detail}</div>}
+                  <div className="at-hash" title={`running hash v${entry.runningHashVersion}: ${hash}`}>
+                    running hash {shortHash(hash) || '—'}
+                  </div>
+                  {entry.problem && <div className="at-problem">⚠ {entry.problem}</div>}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <style>{`
+        .at-panel {
+          background: rgba(8,18,38,0.7); border: 1px solid rgba(255,255,255,0.06);
+          border-left: 3px solid #88B5FC; border-radius: 14px; padding: 20px 24px;
+          font-family: 'DM Sans', sans-serif;
+        }
+        .at-head { display: flex; justify-content: space-between; align-items: flex-start; gap: 16px; flex-wrap: wrap; margin-bottom: 16px; }
+        .at-head-right { display: flex; align-items: center; gap: 10px; }
+        .at-title { font-family: 'Orbitron', sans-serif; font-size: 12px; font-weight: 700; color: #E8F4FF; letter-spacing: 2px; margin-bottom: 4px; }
+        .at-topic { font-family: 'JetBrains Mono', monospace; font-size: 11px; color: #38B2F6; text-decoration: none; }
+        .at-chain { font-family: 'JetBrains Mono', monospace; font-size: 10px; letter-spacing: 1px; padding: 3px 9px; border-radius: 5px; }
+        .at-ok  { color: #34D399; background: rgba(52,211,153,0.08); border: 1px solid rgba(52,211,153,0.25); }
+        .at-bad { color: #F87171; background: rgba(248,113,113,0.08); border: 1px solid rgba(248,113,113,0.25); }
+        .at-refresh {
+          padding: 4px 10px; background: transparent; border: 1px solid rgba(136,181,252,0.15); border-radius: 6px;
+          color: rgba(136,181,252,0.6); font-family: 'JetBrains Mono', monospace; font-size: 10px; cursor: pointer;
+        }
+        .at-refresh:disabled { opacity: 0.5; cursor: wait; }
+        .at-error { font-size: 12px; color: rgba(252,165,165,0.9); }
+        .at-empty { font-size: 12px; color: rgba(232,244,255,0.35); }
+        .at-list { list-style: none; margin: 0; padding: 0; display: flex; flex-direction: column; max-height: 420px; overflow-y: auto; }
+        .at-entry { display: flex; gap: 14px; padding: 10px 0; border-top: 1px solid rgba(255,255,255,0.04); }
+        .at-entry:first-child { border-top: none; }
+        .at-entry-bad .at-seq { color: #F87171; }
+        .at-seq { font-family: 'Orbitron', sans-serif; font-size: 11px; font-weight: 700; color: #88B5FC; min-width: 36px; }
+        .at-body { flex: 1; min-width: 0; }
+        .at-line { display: flex; justify-content: space-between; gap: 10px; }
+        .at-label { font-size: 12px; font-weight: 700; color: #E8F4FF; }
+        .at-time { font-family: 'JetBrains Mono', monospace; font-size: 10px; color: rgba(232,244,255,0.3); }
+        .at-detail { font-size: 12px; color: rgba(232,244,255,0.5); margin-top: 2px; word-break: break-word; }
+        .at-hash { font-family: 'JetBrains Mono', monospace; font-size: 10px; color: rgba(136,181,252,0.4); margin-top: 4px; }
+        .at-problem { font-size: 11px; color: #F87171; margin-top: 4px; }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { fetchRepoSize, type RepoSize } from '@/lib/github';
+import { checkBudget, estimateCost, type CostEstimate } from '@/lib/cost-estimate';
+import type { Allocation } from '@/lib/allocation';
+import type { AllocationAgent } from './AllocationEditor';
+
+interface CostEstimatePanelProps {
+  repoUrl: string;
+  budget: number;
+  allocation: Allocation;
+  agents: AllocationAgent[];
+  onUseBudget: (budget: number) => void;
+}
+
+/**
+ * Pre-flight check: sizes the repo on GitHub, estimates each agent's cost and
+ * warns when the chosen budget or split is likely to run out mid-analysis.
+ */
+export default function CostEstimatePanel({ repoUrl, budget, allocation, agents, onUseBudget }: CostEstimatePanelProps) {
+  const [result, setResult]   = useState<{ url: string; size: RepoSize; estimate: CostEstimate } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError]     = useState('');
+
+  const url = repoUrl.trim();
+  // An estimate for a different URL than the one in the box is stale
+  const current = result?.url === url ? result : null;
+
+  const runEstimate = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const size = await fetchRepoSize(url);
+      setResult({ url, size, estimate: estimateCost(size) });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const warning = current ? checkBudget(current.estimate, budget, allocation) : null;
+  const shortNames = warning?.shortAgents.map((k) => agents.find((a) => a.key === k)?.name.replace(' Agent', '') ?? k) ?? [];
+
+  return (
+    <div className="ce-root">
+      {!current ? (
+        <div className="ce-row">
+          <button className="ce-btn" onClick={runEstimate} disabled={!url || loading}>
+            {loading ? 'sizing repo…' : '◎ estimate cost'}
+          </button>
+          {error && <span className="ce-error">{error}</span>}
+        </div>
+      ) : (
+        <>
+          <div className="ce-row">
+            <span className="ce-meta">
+              {current.size.repoName} · {current.size.fileCount.toLocaleString()}{current.size.truncated && '+'} files
+              {current.size.languages.length > 0 && ' · ' + current.size.languages.slice(0, 3).join(', ')}
+            </span>
+            <button className="ce-btn" onClick={runEstimate} disabled={loading}>{loading ? '…' : '↻'}</button>
+          </div>
+
+          <div className="ce-agents">
+            {agents.map(({ key, name, color }) => (
+              <div key={key} className="ce-agent">
+                <span style={{ color }}>{name.replace(' Agent', '')}</span>
+                <span className={warning?.shortAgents.includes(key) ? 'ce-short' : ''}>~{current.estimate.perAgent[key].toFixed(3)} ℏ</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="ce-row">
+            <span className="ce-total">Expected ~{current.estimate.total.toFixed(2)} HBAR · recommended {current.estimate.recommended.toFixed(1)}</span>
+            {current.estimate.recommended !== budget && (
+              <button className="ce-btn" onClick={() => onUseBudget(current.estimate.recommended)}>use {current.estimate.recommended.toFixed(1)}</button>
+            )}
+          </div>
+
+          {current.estimate.exceedsMax && (
+            <div className="ce-warn">⚠ This repo is likely to cost more than the 5 HBAR maximum — expect partial results.</div>
+          )}
+          {!current.estimate.exceedsMax && warning?.shortTotal && (
+            <div className="ce-warn">⚠ {budget.toFixed(1)} HBAR is likely to run out before every agent finishes.</div>
+          )}
+          {!warning?.shortTotal && shortNames.length > 0 && (
+            <div className="ce-warn">⚠ The split leaves {shortNames.join(', ')} short — {shortNames.length > 1 ? 'they' : 'it'} may stop early.</div>
+          )}
+        </>
+      )}
+
+      <style>{`
+        .ce-root {
+          display: flex; flex-direction: column; gap: 8px; margin-bottom: 16px;
+          font-family: 'JetBrains Mono', monospace; font-size: 11px; color: rgba(232,244,255,0.45);
+        }
+        .ce-row { display: flex; align-items: center; justify-content: space-between; gap: 10px; flex-wrap: wrap; }
+        .ce-btn {
+          padding: 4px 10px; background: transparent;
+          border: 1px solid rgba(136,181,252,0.15); border-radius: 6px;
+          color: rgba(136,181,252,0.6); font-family: inherit; font-size: 10px; cursor: pointer; transition: all 0.2s;
+        }
+        .ce-btn:hover:not(:disabled) { border-color: rgba(136,181,252,0.4); color: #88B5FC; }
+        .ce-btn:disabled { opacity: 0.4; cursor: default; }
+        .ce-error { color: rgba(252,165,165,0.9); }
+        .ce-meta { color: rgba(232,244,255,0.5); }
+        .ce-agents { display: grid; grid-template-columns: 1fr 1fr; gap: 4px 16px; }
+        .ce-agent { display: flex; justify-content: space-between; }
+        .ce-short { color: #FBBF24; }
+        .ce-total { color: #88B5FC; }
+        .ce-warn {
+          padding: 7px 10px; color: #FBBF24; line-height: 1.5;
+          background: rgba(251,191,36,0.06); border: 1px solid rgba(251,191,36,0.2); border-radius: 7px;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import { copyDiagramImage, downloadDiagram, DEFAULT_DIAGRAM_BACKGROUND, type DiagramFormat } from '@/lib/diagram-export';
+
+interface Props {
+  /** Mermaid source, for `.mmd` export. */
+  source: string;
+  /** Rendered diagram; null while rendering or after a failed render. */
+  svg: SVGSVGElement | null;
+  /** File name without extension. */
+  fileStem: string;
+  background?: string;
+}
+
+const FORMATS: { format: DiagramFormat; label: string }[] = [
+  { format: 'svg', label: 'svg' },
+  { format: 'png', label: 'png' },
+  { format: 'png@2x', label: 'png 2x' },
+  { format: 'mmd', label: '.mmd' },
+];
+
+/** Download and copy actions for one Mermaid diagram. */
+export default function DiagramActions({ source, svg, fileStem, background = DEFAULT_DIAGRAM_BACKGROUND }: Props) {
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  const flash = (ok: boolean, text: string) => {
+    clearTimeout(timer.current);
+    setStatus({ ok, text });
+    timer.current = setTimeout(() => setStatus(null), ok ? 2000 : 5000);
+  };
+
+  const run = (action: () => Promise<void>, done?: string) => {
+    action()
+      .then(() => { if (done) flash(true, done); })
+      .catch((e) => flash(false, e instanceof Error ? e.message : String(e)));
+  };
+
+  return (
+    <div className="dx-root">
+      {status && <span className={status.ok ? 'dx-ok' : 'dx-err'}>{status.text}</span>}
+      {FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          className="dx-btn"
+          disabled={format !== 'mmd' && !svg}
+          onClick={() => run(() => downloadDiagram(format, fileStem, source, svg, background))}
+        >
+          ⇩ {label}
+        </button>
+      ))}
+      <button className="dx-btn" disabled={!svg} onClick={() => svg && run(() => copyDiagramImage(svg, background), 'copied')}>
+        ⧉ copy image
+      </button>
+
+      <style>{`
+        .dx-root { display: flex; align-items: center; justify-content: flex-end; flex-wrap: wrap; gap: 6px; font-family: 'JetBrains Mono', monospace; }
+        .dx-btn {
+          padding: 3px 9px; background: transparent; border: 1px solid rgba(136,181,252,0.15); border-radius: 6px;
+          color: rgba(136,181,252,0.6); font-family: inherit; font-size: 10px; cursor: pointer; white-space: nowrap;
+        }
+        .dx-btn:hover:not(:disabled) { border-color: rgba(136,181,252,0.4); color: #88B5FC; }
+        .dx-btn:disabled { opacity: 0.35; cursor: default; }
+        .dx-ok { font-size: 10px; color: #34D399; }
+        .dx-err { font-size: 10px; color: #F87171; max-width: 320px; }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { RedFlag, TechDebtItem } from '@/lib/analysis-types';
+import {
+  toIssue, issuesToMarkdown, downloadIssuesMarkdown, downloadIssuesCsv, type IssueSource,
+} from '@/lib/issue-export';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  repoName: string;
+  redFlags: RedFlag[];
+  techDebt: TechDebtItem[];
+}
+
+const SEVERITY_COLOR: Record<string, string> = {
+  high: '#F87171', medium: '#FBBF24', low: '#38B2F6',
+};
+
+export default function IssueExportDialog({ open, onClose, repoName, redFlags, techDebt }: Props) {
+  const sources = useMemo<IssueSource[]>(() => [
+    ...redFlags.map((item) => ({ kind: 'redFlag' as const, item })),
+    ...techDebt.map((item) => ({ kind: 'techDebt' as const, item })),
+  ], [redFlags, techDebt]);
+
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [preview, setPreview]   = useState(0);
+  // Which copy button last ran, and whether the clipboard took it
+  const [copied, setCopied]     = useState<{ which: 'all' | 'one'; ok: boolean } | null>(null);
+  const copiedTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(copiedTimer.current), []);
+
+  /* everything selected each time the dialog opens */
+  useEffect(() => {
+    if (open) { setSelected(new Set(sources.map((_, i) => i))); setPreview(0); }
+  }, [open, sources]);
+
+  /* close on Escape */
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [open, onClose]);
+
+  const issues = sources.map((s) => toIssue(s, repoName));
+  const chosen = issues.filter((_, i) => selected.has(i));
+
+  const toggle = (i: number) => setSelected((prev) => {
+    const next = new Set(prev);
+    if (next.has(i)) next.delete(i); else next.add(i);
+    return next;
+  });
+
+  // Clipboard access can be refused (permissions, insecure context)
+  const copy = async (text: string, which: 'all' | 'one') => {
+    let ok = true;
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch {
+      ok = false;
+    }
+    clearTimeout(copiedTimer.current);
+    setCopied({ which, ok });
+    copiedTimer.current = setTimeout(() => setCopied(null), ok ? 1800 : 4000);
+  };
+
+  const copyFailed = (which: 'all' | 'one') => copied?.which === which && !copied.ok;
+  const copyLabel = (which: 'all' | 'one', idle: string) =>
+    copied?.which !== which ? idle : copied.ok ? '✓ copied' : '✗ copy failed';
+
+  const current = issues[preview];
+
+  return (
+    <>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="ie-overlay"
+            onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="ie-panel"
+              role="dialog"
+              aria-modal="true"
+              aria-label="Export issues"
+              initial={{ opacity: 0, y: 16, scale: 0.97 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: 16, scale: 0.97 }}
+              transition={{ type: 'spring', stiffness: 420, damping: 32 }}
+            >
+              <div className="ie-head">
+                <div>
+                  <div className="ie-title">Export Issues</div>
+                  <div className="ie-sub">{chosen.length} of {issues.length} selected · one markdown issue per item</div>
+                </div>
+                <button className="ie-close" onClick={onClose} aria-label="Close">✕</button>
+              </div>
+
+              <div className="ie-body">
+                {/* Item list */}
+                <div className="ie-list">
+                  <div className="ie-list-actions">
+                    <button onClick={() => setSelected(new Set(issues.map((_, i) => i)))}>all</button>
+                    <button onClick={() => setSelected(new Set())}>none</button>
+                  </div>
+                  {sources.map((s, i) => {
+                    const tag = s.kind === 'redFlag' ? s.item.severity : 'debt';
+                    const col = s.kind === 'redFlag' ? SEVERITY_COLOR[s.item.severity] || '#88B5FC' : '#A78BFA';
+                    return (
+                      <label key={i} className={'ie-row' + (preview === i ? ' ie-row-active' : '')} onMouseEnter={() => setPreview(i)}>
+                        <input type="checkbox" checked={selected.has(i)} onChange={() => toggle(i)} />
+                        <span className="ie-tag" style={{ color: col, background: col + '1A' }}>{tag}</span>
+                        <span className="ie-row-title">{issues[i].title}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+
+                {/* Preview */}
+                <div className="ie-preview">
+                  {current && (
+                    <>
+                      <div className="ie-preview-head">
+                        <span className="ie-preview-title">{current.title}</span>
+                        <button className={'ie-btn' + (copyFailed('one') ? ' ie-btn-err' : '')} onClick={() => copy(`# ${current.title}\n\n${current.body}`, 'one')}>
+                          {copyLabel('one', 'copy')}
+                        </button>
+                      </div>
+                      <div className="ie-labels">{current.labels.map((l) => <span key={l}>{l}</span>)}</div>
+                      <pre className="ie-md">{current.body}</pre>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="ie-foot">
+                <button className={'ie-btn' + (copyFailed('all') ? ' ie-btn-err' : '')} disabled={!chosen.length} onClick={() => copy(issuesToMarkdown(chosen, repoName), 'all')}>
+                  {copyLabel('all', 'Copy all')}
+                </button>
+                <button className="ie-btn" disabled={!chosen.length} onClick={() => downloadIssuesMarkdown(chosen, repoName)}>⇩ .md bundle</button>
+                <button className="ie-btn ie-btn-primary" disabled={!chosen.length} onClick={() => downloadIssuesCsv(chosen, repoName)}>⇩ CSV for import</button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <style>{`
+        .ie-overlay {
+          position: fixed; inset: 0; z-index: 9999;
+          display: flex; align-items: center; justify-content: center; padding: 24px;
+          background: rgba(2,11,24,0.75); backdrop-filter: blur(6px);
+        }
+        .ie-panel {
+          width: 100%; max-width: 960px; max-height: 86vh;
+          display: flex; flex-direction: column;
+          background: rgba(4,12,28,0.97);
+          border: 1px solid rgba(136,181,252,0.15); border-radius: 16px;
+          box-shadow: 0 24px 80px rgba(0,0,0,0.6), 0 0 60px rgba(126,63,242,0.08);
+          font-family: 'DM Sans', sans-serif; color: #E8F4FF;
+        }
+        .ie-head { display: flex; justify-content: space-between; align-items: flex-start; padding: 20px 24px 14px; border-bottom: 1px solid rgba(255,255,255,0.05); }
+        .ie-title { font-family: 'Orbitron', sans-serif; font-size: 14px; font-weight: 700; letter-spacing: 1px; margin-bottom: 4px; }
+        .ie-sub { font-family: 'JetBrains Mono', monospace; font-size: 11px; color: rgba(232,244,255,0.35); }
+        .ie-close { background: none; border: none; color: rgba(232,244,255,0.35); font-size: 16px; cursor: pointer; }
+        .ie-close:hover { color: #E8F4FF; }
+
+        .ie-body { flex: 1; min-height: 0; display: grid; grid-template-columns: 2fr 3fr; }
+        .ie-list { overflow-y: auto; padding: 12px; border-right: 1px solid rgba(255,255,255,0.05); }
+        .ie-list-actions { display: flex; gap: 6px; margin-bottom: 8px; }
+        .ie-list-actions button {
+          background: transparent; border: 1px solid rgba(255,255,255,0.08); border-radius: 5px;
+          color: rgba(232,244,255,0.4); font-family: 'JetBrains Mono', monospace; font-size: 10px; padding: 3px 10px; cursor: pointer;
+        }
+        .ie-row { display: flex; align-items: center; gap: 10px; padding: 8px 10px; border-radius: 8px; cursor: pointer; font-size: 12.5px; }
+        .ie-row-active { background: rgba(136,181,252,0.06); }
+        .ie-row input { accent-color: #88B5FC; flex-shrink: 0; }
+        .ie-tag { font-size: 9px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; padding: 2px 7px; border-radius: 4px; flex-shrink: 0; }
+        .ie-row-title { color: rgba(232,244,255,0.75); overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+
+        .ie-preview { overflow-y: auto; padding: 16px 20px; }
+        .ie-preview-head { display: flex; justify-content: space-between; align-items: flex-start; gap: 12px; margin-bottom: 8px; }
+        .ie-preview-title { font-weight: 700; font-size: 14px; }
+        .ie-labels { display: flex; flex-wrap: wrap; gap: 5px; margin-bottom: 12px; }
+        .ie-labels span { font-family: 'JetBrains Mono', monospace; font-size: 10px; color: #88B5FC; padding: 2px 8px; border: 1px solid rgba(136,181,252,0.2); border-radius: 10px; }
+        .ie-md {
+          white-space: pre-wrap; word-break: break-word; margin: 0;
+          font-family: 'JetBrains Mono', monospace; font-size: 11.5px; line-height: 1.65; color: rgba(232,244,255,0.6);
+          background: rgba(8,20,45,0.5); border: 1px solid rgba(255,255,255,0.05); border-radius: 8px; padding: 14px 16px;
+        }
+
+        .ie-foot { display: flex; justify-content: flex-end; gap: 8px; padding: 14px 24px; border-top: 1px solid rgba(255,255,255,0.05); }
+        .ie-btn {
+          padding: 7px 14px; background: transparent; white-space: nowrap;
+          border: 1px solid rgba(136,181,252,0.25); border-radius: 7px;
+          color: #88B5FC; font-size: 12px; font-weight: 600; cursor: pointer; transition: all 0.2s;
+        }
+        .ie-btn:hover:not(:disabled) { background: rgba(136,181,252,0.08); }
+        .ie-btn:disabled { opacity: 0.4; cursor: default; }
+        .ie-btn-err { color: #F87171; border-color: rgba(248,113,113,0.35); }
+        .ie-btn-primary { background: linear-gradient(135deg, #7E3FF2 0%, #4F46E5 100%); border: none; color: #fff; }
+        .ie-btn-primary:hover:not(:disabled) { background: linear-gradient(135deg, #7E3FF2 0%, #4F46E5 100%); filter: brightness(1.1); }
+      `}</style>
+    </>
+  );
+}
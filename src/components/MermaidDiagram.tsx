@@ -1,120 +1,134 @@
-import { useEffect, useRef, useState } from 'react';
-import mermaid from 'mermaid';
-
-mermaid.initialize({
-  startOnLoad: false,
-  theme: 'dark',
-  themeVariables: {
-    primaryColor: '#0d1117',
-    primaryTextColor: '#e0e0e0',
-    primaryBorderColor: '#00ff8844',
-    lineColor: '#00ff88',
-    secondaryColor: '#0d1117',
-    tertiaryColor: '#161b22',
-    edgeLabelBackground: '#0d1117',
-    nodeTextColor: '#e0e0e0',
-    mainBkg: '#0d1117',
-    nodeBorder: '#00ff8844',
-    clusterBkg: '#161b22',
-    titleColor: '#00ff88',
-    fontFamily: 'JetBrains Mono, monospace',
-    fontSize: '14px',
-  },
-  flowchart: { curve: 'basis', htmlLabels: true },
-  securityLevel: 'loose',
-});
+import { useEffect, useMemo, useRef, useState } from 'react';
+import DiagramActions from './DiagramActions';
+import { MERMAID_THEMES, renderMermaid, type MermaidTheme } from '@/lib/mermaid';
+import { describeParseError, repairChart, type ParseDiagnostic, type RepairFix } from '@/lib/mermaid-repair';
 
 interface Props {
   chart?: string;
+  /** Colour preset; defaults to the green report palette. */
+  theme?: MermaidTheme;
+  /**
+   * Chart comes from the user's own live session, so HTML labels and click
+   * links are allowed. Anything loaded from storage or a share link is not.
+   */
+  trusted?: boolean;
+  /** Called with the rendered SVG, e.g. to wire up node interactions. */
+  onRender?: (svg: SVGSVGElement) => void;
+  /** File name stem for export actions; no actions are shown without it. */
+  exportName?: string;
 }
 
-let _idCounter = 0;
+const mono = "'JetBrains Mono', monospace";
 
-// Ensure the chart string starts with a valid mermaid diagram type.
-// Claude sometimes returns "graph TD" without a leading newline, which is fine,
-// but it may also return fenced markdown — strip that first.
-function sanitizeChart(raw: string): string {
-  // Strip markdown fences if present
-  let cleaned = raw.trim().replace(/^```[a-z]*\n?/i, '').replace(/```$/, '').trim();
-  // Ensure it starts with a known diagram keyword
-  const valid = ['graph ', 'flowchart ', 'sequenceDiagram', 'classDiagram', 'erDiagram', 'gantt', 'pie'];
-  if (!valid.some((kw) => cleaned.startsWith(kw))) {
-    // Prepend graph TD as default if it looks like bare node definitions
-    cleaned = 'graph TD\n' + cleaned;
-  }
-  return cleaned;
+/** What auto-repair changed, collapsed by default. */
+function RepairNote({ fixes }: { fixes: RepairFix[] }) {
+  if (!fixes.length) return null;
+  return (
+    <details style={{ padding: '6px 12px', fontFamily: mono, fontSize: 10, color: 'rgba(232,244,255,0.35)' }}>
+      <summary style={{ cursor: 'pointer' }}>auto-repaired {fixes.length} issue{fixes.length === 1 ? '' : 's'}</summary>
+      {fixes.map((fix, i) => (
+        <div key={i} style={{ marginTop: 4 }}>
+          <span style={{ color: 'rgba(232,244,255,0.2)' }}>L{fix.line}</span> {fix.detail}
+        </div>
+      ))}
+    </details>
+  );
 }
 
-const MermaidDiagram = ({ chart }: Props) => {
+const MermaidDiagram = ({ chart, theme = 'report', trusted = false, onRender, exportName }: Props) => {
   const ref = useRef<HTMLDivElement>(null);
-  const [error, setError] = useState<string | null>(null);
+  const onRenderRef = useRef(onRender);
+  onRenderRef.current = onRender;
+  const [error, setError] = useState<ParseDiagnostic | null>(null);
   const [rendered, setRendered] = useState(false);
+  const [svg, setSvg] = useState<SVGSVGElement | null>(null);
+  const { background } = MERMAID_THEMES[theme];
+  const repaired = useMemo(() => repairChart(chart ?? ''), [chart]);
 
   useEffect(() => {
     // Guard: nothing to render
-    if (!ref.current || !chart || typeof chart !== 'string' || !chart.trim()) return;
+    if (!ref.current || !repaired.chart.trim()) return;
 
+    let cancelled = false;
     setError(null);
     setRendered(false);
+    setSvg(null);
 
-    const id = 'mermaid-diagram-' + (++_idCounter);
-    const safeChart = sanitizeChart(chart);
-
-    mermaid
-      .render(id, safeChart)
-      .then(({ svg }) => {
-        if (!ref.current) return;
-        ref.current.innerHTML = svg;
+    renderMermaid(repaired.chart, theme, { trusted })
+      .then((diagram) => {
+        if (cancelled || !ref.current) return;
+        ref.current.replaceChildren(diagram);
         const svgEl = ref.current.querySelector('svg');
         if (svgEl) {
           svgEl.style.maxWidth = '100%';
           svgEl.style.height = 'auto';
+          onRenderRef.current?.(svgEl);
         }
+        setSvg(svgEl);
         setRendered(true);
       })
       .catch((err) => {
+        if (cancelled) return;
         console.warn('Mermaid render failed:', err?.message || err);
-        setError(safeChart);
+        ref.current?.replaceChildren();
+        setError(describeParseError(err));
       });
-  }, [chart]);
+
+    return () => { cancelled = true; };
+  }, [repaired, theme, trusted]);
 
   // Not yet given a chart
   if (!chart || !chart.trim()) {
     return (
-      <div style={{ background: '#0d1117', borderRadius: 8, padding: 24, minHeight: 80, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-        <span style={{ color: '#333', fontSize: 12, fontFamily: "'JetBrains Mono', monospace" }}>generating diagram...</span>
+      <div style={{ background, borderRadius: 8, padding: 24, minHeight: 80, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <span style={{ color: '#333', fontSize: 12, fontFamily: mono }}>generating diagram...</span>
       </div>
     );
   }
 
-  // Render failed — show raw source so it's still useful
-  if (error) {
-    return (
-      <div style={{ background: '#0d1117', border: '1px solid #1a2332', borderRadius: 8, padding: 20, fontFamily: "'JetBrains Mono', monospace" }}>
-        <div style={{ color: '#ffaa00', fontSize: 11, marginBottom: 12, letterSpacing: 2 }}>
-          DIAGRAM SOURCE — paste at mermaid.live to view
+  return (
+    <div>
+      {exportName && (
+        <div style={{ padding: '8px 12px', background, borderBottom: '1px solid #1a2332' }}>
+          <DiagramActions source={repaired.chart} svg={svg} fileStem={exportName} background={background} />
         </div>
-        <pre style={{ color: '#888', fontSize: 12, margin: 0, whiteSpace: 'pre-wrap', lineHeight: 1.6 }}>
-          {error}
-        </pre>
-      </div>
-    );
-  }
+      )}
 
-  return (
-    <div
-      ref={ref}
-      style={{
-        background: '#0d1117',
-        borderRadius: 8,
-        padding: 24,
-        overflowX: 'auto',
-        minHeight: rendered ? undefined : 120,
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'center',
-      }}
-    />
+      {/* Render failed — show the source (as text, never markup) so it's still useful */}
+      {error && (
+        <div style={{ background, border: '1px solid #1a2332', borderRadius: 8, padding: 20, fontFamily: mono }}>
+          <div style={{ color: '#ffaa00', fontSize: 11, marginBottom: 6, letterSpacing: 2 }}>
+            DIAGRAM SOURCE — {exportName ? 'download the .mmd or ' : ''}paste at mermaid.live to view
+          </div>
+          <div style={{ color: '#F87171', fontSize: 11, marginBottom: 12 }}>
+            {error.line ? `line ${error.line}: ` : ''}{error.message}
+          </div>
+          <pre style={{ color: '#888', fontSize: 12, margin: 0, whiteSpace: 'pre-wrap', lineHeight: 1.6 }}>
+            {repaired.chart.split('\n').map((line, i) => (
+              <div key={i} style={i + 1 === error.line ? { color: '#FCA5A5', background: 'rgba(239,68,68,0.1)' } : undefined}>
+                <span style={{ display: 'inline-block', width: 28, color: '#444', userSelect: 'none' }}>{i + 1}</span>{line}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+
+      {/* Stays mounted through errors so the next chart has somewhere to render */}
+      <div
+        ref={ref}
+        style={{
+          display: error ? 'none' : 'flex',
+          background,
+          borderRadius: 8,
+          padding: 24,
+          overflowX: 'auto',
+          minHeight: rendered ? undefined : 120,
+          alignItems: 'center',
+          justifyContent: 'center',
+        }}
+      />
+      <RepairNote fixes={repaired.fixes} />
+    </div>
   );
 };
 
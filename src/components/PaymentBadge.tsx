@@ -0,0 +1,30 @@
+import type { PaymentVerification, VerificationStatus } from '@/lib/mirror-node';
+
+const BADGES: Record<VerificationStatus, { icon: string; label: string; color: string }> = {
+  verified: { icon: '✓', label: 'verified', color: '#34D399' },
+  pending:  { icon: '◌', label: 'pending',  color: '#FBBF24' },
+  mismatch: { icon: '✕', label: 'mismatch', color: '#F87171' },
+};
+
+/** Mirror-node verdict for one payment; the tooltip says what was found. */
+export default function PaymentBadge({ verification }: { verification?: PaymentVerification }) {
+  const status = verification?.status ?? 'pending';
+  const { icon, label, color } = BADGES[status];
+  const detail =
+    !verification                 ? 'Checking the mirror node…' :
+    verification.problems.length  ? verification.problems.join('\n') :
+    'Confirmed on the mirror node' + (verification.consensusAt ? ' at ' + verification.consensusAt : '');
+
+  return (
+    <span
+      title={detail}
+      style={{
+        display: 'inline-flex', alignItems: 'center', gap: 4, padding: '1px 7px',
+        fontFamily: "'JetBrains Mono',monospace", fontSize: 9, letterSpacing: 1, textTransform: 'uppercase',
+        color, background: color + '14', border: '1px solid ' + color + '40', borderRadius: 4, whiteSpace: 'nowrap',
+      }}
+    >
+      {icon} {label}
+    </span>
+  );
+}
@@ -0,0 +1,92 @@
+import { downloadReceipt, type Receipt } from '@/lib/receipt';
+import { hashscanTxUrl, isHederaNetwork } from '@/lib/hedera-network';
+
+const formatTime = (iso?: string) =>
+  iso ? new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'medium' }) : '—';
+
+function TxLink({ txId, network }: { txId: string; network?: string }) {
+  if (!txId) return <span className="rr-tx">—</span>;
+  const href = isHederaNetwork(network) ? hashscanTxUrl(txId, network) : hashscanTxUrl(txId);
+  return <a className="rr-tx" href={href} target="_blank" rel="noopener noreferrer">{txId} ↗</a>;
+}
+
+/** The financial record of one run: escrow in, agent payments, refund out. */
+export default function RunReceipt({ receipt }: { receipt: Receipt }) {
+  const { funding, payments, refund, network } = receipt;
+
+  return (
+    <div className="rr-root">
+      <div className="rr-head">
+        <div>
+          <div className="rr-title">RECEIPT</div>
+          <div className="rr-sub">{receipt.repoName} · {formatTime(receipt.createdAt)}{network && ' · ' + network}</div>
+        </div>
+        <div style={{ display: 'flex', gap: 6 }}>
+          <button className="rr-btn" onClick={() => downloadReceipt(receipt, 'csv')}>⇩ csv</button>
+          <button className="rr-btn" onClick={() => downloadReceipt(receipt, 'json')}>⇩ json</button>
+        </div>
+      </div>
+
+      <div className="rr-table">
+        <div className="rr-row">
+          <span className="rr-label">Budget escrowed</span>
+          <span className="rr-amount">{funding ? funding.amount.toFixed(3) + ' ℏ' : 'server-funded'}</span>
+          <span className="rr-when">{funding ? formatTime(receipt.createdAt) : ''}</span>
+          {funding ? <TxLink txId={funding.txId} network={network} /> : <span className="rr-tx">—</span>}
+        </div>
+        {payments.map((p) => (
+          <div key={p.txId} className="rr-row">
+            <span className="rr-label">{p.agent}</span>
+            <span className="rr-amount">−{p.amount.toFixed(3)} ℏ</span>
+            <span className="rr-when">{formatTime(p.paidAt)}</span>
+            <TxLink txId={p.txId} network={network} />
+          </div>
+        ))}
+        {refund && (
+          <div className="rr-row">
+            <span className="rr-label">Refund{funding && ' → ' + funding.accountId}</span>
+            <span className="rr-amount rr-refund">{refund.amount.toFixed(3)} ℏ</span>
+            <span className="rr-when">{formatTime(refund.at)}</span>
+            <TxLink txId={refund.txId} network={network} />
+          </div>
+        )}
+      </div>
+
+      <div className="rr-totals">
+        <span>budget {receipt.budget.toFixed(3)} ℏ</span>
+        <span>spent {receipt.spent.toFixed(3)} ℏ</span>
+        <span>refunded {(refund?.amount ?? 0).toFixed(3)} ℏ</span>
+      </div>
+
+      <style>{`
+        .rr-root {
+          background: rgba(8,18,38,0.7); border: 1px solid rgba(255,255,255,0.06); border-radius: 14px;
+          padding: 18px 24px; font-family: 'JetBrains Mono', monospace;
+        }
+        .rr-head { display: flex; justify-content: space-between; align-items: flex-start; gap: 12px; margin-bottom: 14px; }
+        .rr-title { font-family: 'Orbitron', sans-serif; font-size: 11px; font-weight: 700; color: #88B5FC; letter-spacing: 2px; margin-bottom: 4px; }
+        .rr-sub { font-size: 11px; color: rgba(232,244,255,0.35); }
+        .rr-btn {
+          padding: 4px 10px; background: transparent; border: 1px solid rgba(136,181,252,0.15); border-radius: 6px;
+          color: rgba(136,181,252,0.6); font-family: inherit; font-size: 10px; cursor: pointer;
+        }
+        .rr-btn:hover { border-color: rgba(136,181,252,0.4); color: #88B5FC; }
+        .rr-table { display: flex; flex-direction: column; }
+        .rr-row {
+          display: grid; grid-template-columns: 1.3fr 0.8fr 1.2fr 2fr; gap: 12px; align-items: baseline;
+          padding: 7px 0; border-top: 1px solid rgba(255,255,255,0.04); font-size: 11px;
+        }
+        .rr-row:first-child { border-top: none; }
+        .rr-label { color: rgba(232,244,255,0.7); }
+        .rr-amount { color: #E8F4FF; text-align: right; }
+        .rr-refund { color: #34D399; }
+        .rr-when { color: rgba(232,244,255,0.3); font-size: 10px; }
+        .rr-tx { color: #38B2F6; font-size: 10px; text-decoration: none; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .rr-totals {
+          display: flex; justify-content: flex-end; gap: 18px; margin-top: 12px; padding-top: 10px;
+          border-top: 1px solid rgba(136,181,252,0.1); font-size: 11px; color: rgba(232,244,255,0.5);
+        }
+      `}</style>
+    </div>
+  );
+}
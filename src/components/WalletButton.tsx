@@ -1,22 +1,37 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { availableWallets, type WalletId } from '@/lib/wallet';
+import { useWallet } from '@/hooks/use-wallet';
+import { useHederaNetwork } from '@/hooks/use-hedera-network';
+import { HEDERA_NETWORKS, networkLabel, type HederaNetwork } from '@/lib/hedera-network';
 
-const WALLETS = [
-  { id: 'hashpack', name: 'HashPack',    icon: '⬡', color: '#8B5CF6', desc: 'Most popular Hedera wallet' },
-  { id: 'blade',    name: 'Blade Wallet', icon: '◆', color: '#38B2F6', desc: 'Browser extension wallet'  },
-  { id: 'kabila',   name: 'Kabila',       icon: '◉', color: '#10B981', desc: 'Mobile & web wallet'       },
-];
+const WALLETS = availableWallets();
+const NETWORKS = Object.keys(HEDERA_NETWORKS) as HederaNetwork[];
+
+function NetworkToggle() {
+  const [network, setNetwork] = useHederaNetwork();
+  return (
+    <div className="wc-net-toggle" role="radiogroup" aria-label="Hedera network">
+      {NETWORKS.map((n) => (
+        <button key={n} role="radio" aria-checked={network === n} className={'wc-net' + (network === n ? ' wc-net-on' : '')} onClick={() => setNetwork(n)}>
+          {n}
+        </button>
+      ))}
+    </div>
+  );
+}
 
 function truncate(addr: string) {
   return addr.length > 12 ? `${addr.slice(0, 5)}...${addr.slice(-4)}` : addr;
 }
 
 export default function WalletButton() {
-  const [connected, setConnected]   = useState(false);
-  const [address, setAddress]       = useState('');
-  const [balance, setBalance]       = useState('');
-  const [showModal, setShowModal]   = useState(false);
-  const [connecting, setConnecting] = useState<string | null>(null);
+  const { status, accountId, balance: hbar, connecting, error, connect: connectWallet, disconnect: disconnectWallet } = useWallet();
+  const connected = status === 'connected';
+  const address   = accountId ?? '';
+  const balance   = hbar === null ? '—' : hbar.toFixed(2);
+  const [network] = useHederaNetwork();
+  const [showModal, setShowModal] = useState(false);
   const modalRef = useRef<HTMLDivElement>(null);
 
   /* close on outside click */
@@ -30,22 +45,13 @@ export default function WalletButton() {
     return () => document.removeEventListener('mousedown', handler);
   }, [showModal]);
 
-  const connect = async (walletId: string) => {
-    setConnecting(walletId);
-    await new Promise(r => setTimeout(r, 1100));
-    const acct = `0.0.${(Math.floor(Math.random() * 8_000_000) + 1_000_000)}`;
-    const bal  = (Math.random() * 8 + 1).toFixed(2);
-    setAddress(acct);
-    setBalance(bal);
-    setConnected(true);
-    setConnecting(null);
-    setShowModal(false);
-  };
+  /* close once a connection lands */
+  useEffect(() => { if (connected) setShowModal(false); }, [connected]);
 
-  const disconnect = () => {
-    setConnected(false);
-    setAddress('');
-    setBalance('');
+  const connect = (walletId: WalletId) => connectWallet(walletId);
+
+  const disconnect = async () => {
+    await disconnectWallet();
     setShowModal(false);
   };
 
@@ -60,7 +66,7 @@ export default function WalletButton() {
           whileTap={{ scale: 0.97 }}
         >
           <span className="wc-icon">⬡</span>
-          Connect Wallet
+          {status === 'restoring' ? 'Reconnecting…' : 'Connect Wallet'}
         </motion.button>
       ) : (
         <motion.button
@@ -103,7 +109,7 @@ export default function WalletButton() {
                       initial={{ opacity: 0, x: -8 }}
                       animate={{ opacity: 1, x: 0 }}
                       transition={{ delay: i * 0.06 }}
-                      whileHover={{ x: 5, backgroundColor: `rgba(${w.color === '#8B5CF6' ? '139,92,246' : w.color === '#38B2F6' ? '56,178,246' : '16,185,129'},0.08)` }}
+                      whileHover={{ x: 5, backgroundColor: w.color + '14' }}
                       whileTap={{ scale: 0.98 }}
                     >
                       <span className="wc-wallet-icon" style={{ color: w.color }}>{w.icon}</span>
@@ -124,8 +130,10 @@ export default function WalletButton() {
                   ))}
                 </div>
 
+                {error && <div className="wc-error">{error}</div>}
+
                 <div className="wc-footer-note">
-                  <span className="wc-hedera-badge">⬡ Hedera Testnet</span>
+                  <NetworkToggle />
                 </div>
               </>
             ) : (
@@ -135,7 +143,7 @@ export default function WalletButton() {
                     <span className="wc-live-dot" />
                     Connected
                   </div>
-                  <div className="wc-modal-sub" style={{ color: '#10B981' }}>Hedera Testnet</div>
+                  <div className="wc-modal-sub" style={{ color: '#10B981' }}>{networkLabel(network)}</div>
                 </div>
 
                 <div className="wc-account-box">
@@ -157,6 +165,10 @@ export default function WalletButton() {
                 >
                   Disconnect
                 </motion.button>
+
+                <div className="wc-footer-note" title="Switching network disconnects this wallet">
+                  <NetworkToggle />
+                </div>
               </>
             )}
           </motion.div>
@@ -240,14 +252,26 @@ export default function WalletButton() {
         }
         .wc-wallet-desc { font-size: 10.5px; color: rgba(232,244,255,0.3); }
 
+        .wc-error {
+          margin-top: 12px; padding: 8px 10px;
+          font-size: 11px; line-height: 1.5; color: rgba(252,165,165,0.9);
+          background: rgba(239,68,68,0.06); border: 1px solid rgba(239,68,68,0.2); border-radius: 8px;
+        }
+
         /* Footer note */
         .wc-footer-note { margin-top: 14px; display: flex; justify-content: center; }
-        .wc-hedera-badge {
+        .wc-net-toggle {
+          display: inline-flex; padding: 2px;
+          border: 1px solid rgba(136,181,252,0.1); border-radius: 7px;
+        }
+        .wc-net {
           font-family: 'JetBrains Mono', monospace; font-size: 10px;
           color: rgba(136,181,252,0.35); letter-spacing: 1.5px; text-transform: uppercase;
-          padding: 4px 10px;
-          border: 1px solid rgba(136,181,252,0.1); border-radius: 6px;
+          padding: 4px 9px; background: transparent; border: none; border-radius: 5px; cursor: pointer;
+          transition: all 0.2s;
         }
+        .wc-net:hover { color: rgba(136,181,252,0.7); }
+        .wc-net-on { color: #88B5FC; background: rgba(136,181,252,0.1); }
 
         /* Account box */
         .wc-account-box {
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import {
+  getWalletAdapter, loadWalletSession, mockWalletEnabled, saveWalletSession, type WalletAdapter, type WalletId,
+} from '@/lib/wallet';
+import { WalletContext, type WalletContextValue, type WalletStatus } from '@/lib/wallet-context';
+import type { HederaNetwork } from '@/lib/hedera-network';
+import { useHederaNetwork } from '@/hooks/use-hedera-network';
+
+/** The saved session, unless it is a mock one this build no longer offers. */
+function restorableSession() {
+  const session = loadWalletSession();
+  if (session?.walletId === 'mock' && !mockWalletEnabled()) {
+    saveWalletSession(null);
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Owns the one wallet connection for the whole app, so it survives route
+ * changes, and resumes the last session after a reload.
+ */
+export default function WalletProvider({ children }: { children: ReactNode }) {
+  const [wallet, setWallet]         = useState<WalletAdapter | null>(null);
+  const [status, setStatus]         = useState<WalletStatus>(() => (restorableSession() ? 'restoring' : 'disconnected'));
+  const [balance, setBalance]       = useState<number | null>(null);
+  const [connecting, setConnecting] = useState<WalletId | null>(null);
+  const [error, setError]           = useState('');
+  const [network]                   = useHederaNetwork();
+  // Network the current session was opened on
+  const [walletNetwork, setWalletNetwork] = useState<HederaNetwork | null>(null);
+
+  /* resume the previous session once, on mount */
+  useEffect(() => {
+    const session = restorableSession();
+    if (!session) return;
+    let live = true;
+    getWalletAdapter(session.walletId)
+      .then(async (adapter) => {
+        const ok = await adapter.restore(session.accountId);
+        if (!live) return;
+        if (ok) { setWallet(adapter); setWalletNetwork(session.network); setStatus('connected'); }
+        else { saveWalletSession(null); setStatus('disconnected'); }
+      })
+      .catch(() => { if (live) setStatus('disconnected'); });
+    return () => { live = false; };
+  }, []);
+
+  const refreshBalance = useCallback(async () => {
+    if (!wallet) { setBalance(null); return; }
+    try { setBalance(await wallet.balance()); }
+    catch { setBalance(null); }
+  }, [wallet]);
+
+  useEffect(() => { refreshBalance(); }, [refreshBalance]);
+
+  const connect = useCallback(async (id: WalletId) => {
+    setConnecting(id);
+    setStatus('connecting');
+    setError('');
+    try {
+      const adapter = await getWalletAdapter(id);
+      const accountId = await adapter.connect();
+      saveWalletSession({ walletId: id, accountId, network });
+      setWallet(adapter);
+      setWalletNetwork(network);
+      setStatus('connected');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not connect wallet.');
+      setStatus(wallet ? 'connected' : 'disconnected');
+    } finally {
+      setConnecting(null);
+    }
+  }, [wallet, network]);
+
+  const disconnect = useCallback(async () => {
+    await wallet?.disconnect().catch(() => undefined);
+    saveWalletSession(null);
+    setWallet(null);
+    setWalletNetwork(null);
+    setStatus('disconnected');
+  }, [wallet]);
+
+  /* a session can't follow a network switch — drop it */
+  useEffect(() => {
+    if (wallet && walletNetwork !== network) disconnect();
+  }, [wallet, walletNetwork, network, disconnect]);
+
+  const value = useMemo<WalletContextValue>(() => ({
+    status,
+    wallet,
+    walletId: wallet?.id ?? null,
+    accountId: wallet?.accountId() ?? null,
+    balance,
+    connecting,
+    error,
+    connect,
+    disconnect,
+    refreshBalance,
+  }), [status, wallet, balance, connecting, error, connect, disconnect, refreshBalance]);
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
+}
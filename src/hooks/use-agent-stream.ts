@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isTerminalEvent, parseAgentEvent, type AgentStreamEvent } from '@/lib/agent-events';
+
+export type AgentStreamStatus =
+  | 'idle'          // nothing started yet (or reset)
+  | 'connecting'    // EventSource created, no message received
+  | 'streaming'     // at least one event received
+  | 'reconnecting'  // connection dropped, waiting to resume the run
+  | 'done'          // server sent a terminal event
+  | 'failed'        // connection dropped and the run could not be resumed
+  | 'cancelled';    // closed by the client
+
+interface ReconnectOptions {
+  /** Attempts before giving up. */
+  retries: number;
+  /** Delay before the first attempt; doubles on each subsequent one. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+interface UseAgentStreamOptions {
+  /** Called for every well-formed event, in order. Replayed events are skipped. */
+  onEvent: (event: AgentStreamEvent) => void;
+  /** Called once the connection is lost for good. */
+  onConnectionError?: () => void;
+  reconnect?: Partial<ReconnectOptions>;
+}
+
+const DEFAULT_RECONNECT: ReconnectOptions = { retries: 5, baseDelayMs: 1000, maxDelayMs: 15000 };
+
+// Book-keeping for the run currently owned by the hook
+interface RunState {
+  url: string;
+  runId?: string;
+  /** The server has acknowledged the run with run_started. */
+  started: boolean;
+  lastEventId?: string;
+  seenIds: Set<string>;
+  attempt: number;
+}
+
+// EventSource cannot set headers, so the resume cursor goes in the query
+// string. The backend treats `lastEventId` exactly like a Last-Event-ID header.
+function resumeUrl(run: RunState): string {
+  const u = new URL(run.url, window.location.origin);
+  if (run.runId) u.searchParams.set('runId', run.runId);
+  if (run.lastEventId) u.searchParams.set('lastEventId', run.lastEventId);
+  return u.toString();
+}
+
+/**
+ * Owns a single EventSource for /api/run or /api/analyze.
+ *
+ * Starting a new run closes any previous one, and the stream is always closed
+ * on unmount, so pages never leak a connection when the user navigates away.
+ *
+ * The run id is known from the start: it is read from the `runId` the stream
+ * URL carries, so the run can be cancelled before the server says anything.
+ *
+ * Runs spend real HBAR, so a dropped connection is resumed rather than
+ * restarted: once the server has acknowledged the run (run_started or an SSE
+ * id), the hook reconnects with backoff and asks for everything after the last
+ * event it saw. Without either it gives up instead of re-submitting the run.
+ */
+export function useAgentStream({ onEvent, onConnectionError, reconnect }: UseAgentStreamOptions) {
+  const [status, setStatus]   = useState<AgentStreamStatus>('idle');
+  const [runId, setRunId]     = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  const sourceRef = useRef<EventSource | null>(null);
+  const runRef    = useRef<RunState | null>(null);
+  const timerRef  = useRef<number | undefined>();
+
+  // Keep the latest callbacks and settings without re-creating start()
+  const onEventRef   = useRef(onEvent);
+  const onErrorRef   = useRef(onConnectionError);
+  const reconnectRef = useRef<ReconnectOptions>({ ...DEFAULT_RECONNECT, ...reconnect });
+  onEventRef.current   = onEvent;
+  onErrorRef.current   = onConnectionError;
+  reconnectRef.current = { ...DEFAULT_RECONNECT, ...reconnect };
+
+  const close = useCallback(() => {
+    window.clearTimeout(timerRef.current);
+    sourceRef.current?.close();
+    sourceRef.current = null;
+    runRef.current = null;
+  }, []);
+
+  const start = useCallback((url: string) => {
+    close();
+    const runId = new URL(url, window.location.origin).searchParams.get('runId') ?? undefined;
+    const run: RunState = { url, runId, started: false, seenIds: new Set(), attempt: 0 };
+    runRef.current = run;
+    setRunId(runId ?? null);
+    setAttempt(0);
+    setStatus('connecting');
+
+    const connect = (target: string) => {
+      const es = new EventSource(target);
+      sourceRef.current = es;
+      // EventSource reports the last `id:` it saw on every event after it, so
+      // an id only marks a new event when it differs from the previous one.
+      // Events without their own id share the fate of the one they follow.
+      let currentId = '';
+      let replayed = false;
+
+      es.onmessage = (e) => {
+        if (sourceRef.current !== es) return;
+
+        // The server replays from the cursor; drop anything already delivered
+        if (e.lastEventId !== currentId) {
+          currentId = e.lastEventId;
+          replayed = run.seenIds.has(currentId);
+          if (!replayed) {
+            run.seenIds.add(currentId);
+            run.lastEventId = currentId;
+          }
+        }
+        if (replayed) return;
+
+        const event = parseAgentEvent(e.data);
+        if (!event) return;
+
+        if (run.attempt) { run.attempt = 0; setAttempt(0); }
+        if (event.type === 'run_started') { run.runId = event.runId; run.started = true; setRunId(event.runId); }
+
+        setStatus('streaming');
+        if (isTerminalEvent(event)) {
+          close();
+          setStatus('done');
+        }
+        onEventRef.current(event);
+      };
+
+      es.onerror = () => {
+        if (sourceRef.current !== es) return;
+        es.close();
+        sourceRef.current = null;
+
+        const { retries, baseDelayMs, maxDelayMs } = reconnectRef.current;
+        const resumable = !!(run.started || run.lastEventId);
+        if (resumable && run.attempt < retries) {
+          const delay = Math.min(baseDelayMs * 2 ** run.attempt, maxDelayMs);
+          run.attempt += 1;
+          setAttempt(run.attempt);
+          setStatus('reconnecting');
+          timerRef.current = window.setTimeout(() => {
+            if (runRef.current === run) connect(resumeUrl(run));
+          }, delay);
+          return;
+        }
+
+        runRef.current = null;
+        setStatus('failed');
+        onErrorRef.current?.();
+      };
+    };
+
+    connect(url);
+  }, [close]);
+
+  const cancel = useCallback(() => {
+    if (!runRef.current) return;
+    close();
+    setStatus('cancelled');
+  }, [close]);
+
+  const reset = useCallback(() => {
+    close();
+    setRunId(null);
+    setAttempt(0);
+    setStatus('idle');
+  }, [close]);
+
+  useEffect(() => close, [close]);
+
+  return {
+    status,
+    running: status === 'connecting' || status === 'streaming' || status === 'reconnecting',
+    /** Id of the current run: the one it was started with, or the server's from run_started. */
+    runId,
+    /** Current reconnect attempt (0 while connected). */
+    attempt,
+    start,
+    cancel,
+    reset,
+  };
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getNetwork, setNetwork, subscribeNetwork, type HederaNetwork } from '@/lib/hedera-network';
+
+/** The selected Hedera network; re-renders when the toggle changes it. */
+export function useHederaNetwork(): [HederaNetwork, (network: HederaNetwork) => void] {
+  const network = useSyncExternalStore(subscribeNetwork, getNetwork, getNetwork);
+  return [network, setNetwork];
+}
@@ -0,0 +1,101 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+
+export interface PanZoomTransform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 4;
+const ZOOM_STEP = 1.2;
+// Pointer travel, in px, before a press counts as a drag rather than a click
+const DRAG_THRESHOLD = 4;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+/**
+ * Drag-to-pan and wheel-to-zoom for one content element inside a viewport.
+ * Content is positioned with a CSS transform from its top-left corner.
+ */
+export function usePanZoom<V extends HTMLElement, C extends HTMLElement>() {
+  const viewportRef = useRef<V>(null);
+  const contentRef  = useRef<C>(null);
+  const [transform, setTransform] = useState<PanZoomTransform>({ x: 0, y: 0, scale: 1 });
+  const drag = useRef<{ startX: number; startY: number; x: number; y: number; moved: boolean } | null>(null);
+  const dragged = useRef(false);
+
+  // Zoom keeping the viewport point (px, py) fixed under the cursor
+  const zoomAt = useCallback((factor: number, px?: number, py?: number) => {
+    setTransform((t) => {
+      const viewport = viewportRef.current;
+      const cx = px ?? (viewport ? viewport.clientWidth / 2 : 0);
+      const cy = py ?? (viewport ? viewport.clientHeight / 2 : 0);
+      const scale = clampScale(t.scale * factor);
+      const k = scale / t.scale;
+      return { scale, x: cx - (cx - t.x) * k, y: cy - (cy - t.y) * k };
+    });
+  }, []);
+
+  const fit = useCallback(() => {
+    const viewport = viewportRef.current;
+    const content = contentRef.current;
+    if (!viewport || !content) return;
+    const w = content.scrollWidth;
+    const h = content.scrollHeight;
+    if (!w || !h) return;
+    const scale = clampScale(Math.min(viewport.clientWidth / w, viewport.clientHeight / h, 1));
+    setTransform({ scale, x: (viewport.clientWidth - w * scale) / 2, y: (viewport.clientHeight - h * scale) / 2 });
+  }, []);
+
+  const reset = useCallback(() => setTransform({ x: 0, y: 0, scale: 1 }), []);
+  const wasDrag = useCallback(() => dragged.current, []);
+
+  // Wheel needs a non-passive listener to stop the page scrolling underneath
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    viewport.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', onWheel);
+  }, [zoomAt]);
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    drag.current = { startX: e.clientX, startY: e.clientY, x: transform.x, y: transform.y, moved: false };
+    dragged.current = false;
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d) return;
+    const dx = e.clientX - d.startX;
+    const dy = e.clientY - d.startY;
+    if (!d.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    if (!d.moved) { d.moved = true; viewportRef.current?.setPointerCapture(e.pointerId); }
+    setTransform((t) => ({ ...t, x: d.x + dx, y: d.y + dy }));
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    dragged.current = !!drag.current?.moved;
+    drag.current = null;
+    if (viewportRef.current?.hasPointerCapture(e.pointerId)) viewportRef.current.releasePointerCapture(e.pointerId);
+  };
+
+  return {
+    viewportRef,
+    contentRef,
+    transform,
+    zoomIn: () => zoomAt(ZOOM_STEP),
+    zoomOut: () => zoomAt(1 / ZOOM_STEP),
+    fit,
+    reset,
+    /** True when the last press moved far enough to be a pan, not a click. */
+    wasDrag,
+    handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp },
+  };
+}
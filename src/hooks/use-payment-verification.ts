@@ -0,0 +1,51 @@
+import { useState, useEffect, useRef } from 'react';
+import { getMirrorNodeClient, verifyPayment, type ExpectedPayment, type PaymentVerification } from '@/lib/mirror-node';
+import type { HederaNetwork } from '@/lib/hedera-network';
+
+// The mirror node usually indexes a transaction within a few seconds of consensus
+const POLL_MS = 4000;
+const MAX_ATTEMPTS = 8;
+
+/**
+ * Verifies each payment against the mirror node of the network the run was
+ * made on (the selected one when omitted), re-polling the ones still pending.
+ * Settled results are kept per txId, so payments that arrive later in a run
+ * don't re-check the earlier ones; a different network starts over.
+ */
+export function usePaymentVerification(payments: ExpectedPayment[], network?: HederaNetwork): Record<string, PaymentVerification> {
+  const [results, setResults] = useState<Record<string, PaymentVerification>>({});
+  const settled = useRef(new Map<string, PaymentVerification>());
+  const settledNetwork = useRef(network);
+  const key = JSON.stringify(payments);
+
+  useEffect(() => {
+    if (settledNetwork.current !== network) {
+      settledNetwork.current = network;
+      settled.current.clear();
+      setResults({});
+    }
+    const list: ExpectedPayment[] = JSON.parse(key);
+    let live = true;
+    let attempts = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      const todo = list.filter((p) => !settled.current.has(p.txId));
+      if (!todo.length) return;
+      const checked = await Promise.all(todo.map((p) => verifyPayment(p, getMirrorNodeClient(), network)));
+      if (!live) return;
+      checked.forEach((v, i) => { if (v.status !== 'pending') settled.current.set(todo[i].txId, v); });
+      setResults((prev) => {
+        const next = { ...prev };
+        checked.forEach((v, i) => { next[todo[i].txId] = v; });
+        return next;
+      });
+      if (checked.some((v) => v.status === 'pending') && ++attempts < MAX_ATTEMPTS) timer = setTimeout(poll, POLL_MS);
+    };
+
+    poll();
+    return () => { live = false; clearTimeout(timer); };
+  }, [key, network]);
+
+  return results;
+}
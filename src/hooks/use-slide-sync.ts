@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+type SyncMessage =
+  | { type: 'goto'; index: number }
+  | { type: 'hello' };
+
+/**
+ * Current slide index shared between every window on the same channel —
+ * the audience view and the presenter window drive each other. A window that
+ * joins late says hello and is told where the deck currently is.
+ */
+export function useSlideSync(channelName: string, count: number) {
+  const [index, setIndex] = useState(0);
+  const indexRef   = useRef(0);
+  const countRef   = useRef(count);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  indexRef.current = index;
+  countRef.current = count;
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(channelName);
+    channelRef.current = channel;
+
+    channel.onmessage = (e: MessageEvent<SyncMessage>) => {
+      // Anything on the channel can post here. The deck may still be loading
+      // when the reply to our hello arrives, so only clamp to a known length.
+      if (e.data?.type === 'goto' && Number.isInteger(e.data.index)) {
+        const last = countRef.current - 1;
+        setIndex(Math.max(0, last >= 0 ? Math.min(last, e.data.index) : e.data.index));
+      }
+      if (e.data?.type === 'hello') channel.postMessage({ type: 'goto', index: indexRef.current } satisfies SyncMessage);
+    };
+    channel.postMessage({ type: 'hello' } satisfies SyncMessage);
+
+    return () => { channel.close(); channelRef.current = null; };
+  }, [channelName]);
+
+  const goTo = useCallback((i: number) => {
+    const next = Math.max(0, Math.min(count - 1, i));
+    setIndex(next);
+    channelRef.current?.postMessage({ type: 'goto', index: next } satisfies SyncMessage);
+  }, [count]);
+
+  const next = useCallback(() => goTo(indexRef.current + 1), [goTo]);
+  const prev = useCallback(() => goTo(indexRef.current - 1), [goTo]);
+
+  return { index: count > 0 ? Math.min(index, count - 1) : index, goTo, next, prev };
+}
@@ -0,0 +1,9 @@
+import { useContext } from 'react';
+import { WalletContext } from '@/lib/wallet-context';
+
+/** Wallet state shared across every route; requires <WalletProvider> above. */
+export function useWallet() {
+  const ctx = useContext(WalletContext);
+  if (!ctx) throw new Error('useWallet must be used within a WalletProvider.');
+  return ctx;
+}
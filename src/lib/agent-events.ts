@@ -0,0 +1,86 @@
+import type { AnalysisKey, RepoMeta } from './analysis-types';
+
+// ─── SSE protocol shared by /api/run and /api/analyze ─────────────────────────
+//
+// Every message on the stream is a JSON object with a `type` discriminator.
+// /api/run emits the step_* and report events, /api/analyze the repo/agent ones;
+// refund and error are terminal for both. Both endpoints open with run_started
+// and tag each message with an SSE `id:` so an interrupted run can be resumed.
+
+// Both
+export interface RunStartedEvent {
+  type: 'run_started';
+  runId: string;
+  /** HCS topic the backend logs this run's steps to, when audit logging is on. */
+  topicId?: string;
+}
+
+// /api/run
+export interface StepStartEvent    { type: 'step_start'; agent: string; task: string }
+export interface StepCompleteEvent { type: 'step_complete'; agent: string; payment: number; txId: string; remainingBudget: number }
+export interface ReportEvent       { type: 'report'; text: string }
+
+// /api/analyze
+export interface FetchingRepoEvent     { type: 'fetching_repo' }
+export interface RepoFetchedEvent      { type: 'repo_fetched'; meta: RepoMeta }
+export interface AgentStartEvent       { type: 'agent_start'; agent: string; payment: number; allocation: number }
+export interface AgentCompleteEvent {
+  type: 'agent_complete';
+  agent: string;
+  key: AnalysisKey;
+  payment: number;
+  txId: string;
+  /** Hedera account the agent was paid to; payments are checked against it. */
+  account?: string;
+  remainingBudget: number;
+  /** Raw agent output — validate with parseAgentResult before use. */
+  result: unknown;
+}
+export interface AgentErrorEvent       { type: 'agent_error'; agent: string; message?: string }
+export interface AnalysisCompleteEvent { type: 'analysis_complete'; data: unknown }
+export interface ReportSavedEvent      { type: 'report_saved'; shareId: string }
+
+// Terminal
+export interface RefundEvent { type: 'refund'; amount: number; txId: string }
+export interface ErrorEvent  { type: 'error'; message: string }
+
+export type AgentStreamEvent =
+  | RunStartedEvent
+  | StepStartEvent
+  | StepCompleteEvent
+  | ReportEvent
+  | FetchingRepoEvent
+  | RepoFetchedEvent
+  | AgentStartEvent
+  | AgentCompleteEvent
+  | AgentErrorEvent
+  | AnalysisCompleteEvent
+  | ReportSavedEvent
+  | RefundEvent
+  | ErrorEvent;
+
+export type AgentStreamEventType = AgentStreamEvent['type'];
+
+const EVENT_TYPES: ReadonlySet<string> = new Set<AgentStreamEventType>([
+  'run_started',
+  'step_start', 'step_complete', 'report',
+  'fetching_repo', 'repo_fetched', 'agent_start', 'agent_complete', 'agent_error',
+  'analysis_complete', 'report_saved',
+  'refund', 'error',
+]);
+
+/** Events after which the server closes the stream. */
+export const isTerminalEvent = (event: AgentStreamEvent) =>
+  event.type === 'refund' || event.type === 'error';
+
+// Parse a raw SSE payload. Unknown types and malformed JSON yield null so a
+// single bad line from the server never takes the page down.
+export function parseAgentEvent(raw: string): AgentStreamEvent | null {
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || !EVENT_TYPES.has(parsed.type)) return null;
+    return parsed as AgentStreamEvent;
+  } catch {
+    return null;
+  }
+}
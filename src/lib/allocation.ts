@@ -0,0 +1,66 @@
+import type { AnalysisKey } from './analysis-types';
+
+// ─── Per-agent budget split ───────────────────────────────────────────────────
+//
+// By default the backend divides an /api/analyze budget evenly. A split lets
+// the user weight it instead — e.g. more for the Insight Agent on a security
+// review. Values are whole percentages that always total 100.
+
+export type Allocation = Record<AnalysisKey, number>;
+
+export const ALLOCATION_KEYS: AnalysisKey[] = ['codeReader', 'simplifier', 'analogy', 'insight'];
+
+export interface AllocationPreset {
+  id: string;
+  label: string;
+  split: Allocation;
+}
+
+export const ALLOCATION_PRESETS: AllocationPreset[] = [
+  { id: 'balanced',   label: 'Balanced',        split: { codeReader: 25, simplifier: 25, analogy: 25, insight: 25 } },
+  { id: 'security',   label: 'Security review', split: { codeReader: 25, simplifier: 10, analogy: 10, insight: 55 } },
+  { id: 'executive',  label: 'CEO briefing',    split: { codeReader: 20, simplifier: 15, analogy: 45, insight: 20 } },
+  { id: 'onboarding', label: 'Onboarding docs', split: { codeReader: 30, simplifier: 40, analogy: 10, insight: 20 } },
+];
+
+export const DEFAULT_ALLOCATION: Allocation = ALLOCATION_PRESETS[0].split;
+
+export const allocationTotal = (allocation: Allocation) =>
+  ALLOCATION_KEYS.reduce((sum, key) => sum + allocation[key], 0);
+
+export const isDefaultAllocation = (allocation: Allocation) =>
+  ALLOCATION_KEYS.every((key) => allocation[key] === DEFAULT_ALLOCATION[key]);
+
+/**
+ * Set one agent's share and spread the difference over the others in
+ * proportion to what they had, so the split keeps totalling 100.
+ */
+export function rebalance(allocation: Allocation, key: AnalysisKey, value: number): Allocation {
+  const target = Math.max(0, Math.min(100, Math.round(value)));
+  const others = ALLOCATION_KEYS.filter((k) => k !== key);
+  const othersTotal = others.reduce((sum, k) => sum + allocation[k], 0);
+  const remaining = 100 - target;
+
+  const next = { ...allocation, [key]: target };
+  // Exact shares, then largest remainders get the leftover points
+  const exact = others.map((k) => ({
+    k,
+    share: othersTotal > 0 ? (allocation[k] / othersTotal) * remaining : remaining / others.length,
+  }));
+  exact.forEach(({ k, share }) => { next[k] = Math.floor(share); });
+  let leftover = remaining - others.reduce((sum, k) => sum + next[k], 0);
+  for (const { k } of [...exact].sort((a, b) => (b.share % 1) - (a.share % 1))) {
+    if (leftover <= 0) break;
+    next[k] += 1;
+    leftover -= 1;
+  }
+  return next;
+}
+
+/** HBAR each agent is planned to receive out of `budget`. */
+export const plannedSpend = (allocation: Allocation, budget: number): Allocation =>
+  Object.fromEntries(ALLOCATION_KEYS.map((key) => [key, (budget * allocation[key]) / 100])) as Allocation;
+
+/** Query-string form the backend accepts: codeReader:25,simplifier:25,… */
+export const allocationParam = (allocation: Allocation) =>
+  ALLOCATION_KEYS.map((key) => `${key}:${allocation[key]}`).join(',');
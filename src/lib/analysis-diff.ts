@@ -0,0 +1,66 @@
+import type { AnalysisData, Dependency, RedFlag, TechDebtItem, TechItem } from './analysis-types';
+
+// ─── Diff two analyses of the same repo ───────────────────────────────────────
+//
+// List items are matched by a normalised identity key (name, issue, …); an item
+// present in both runs whose tracked fields differ is reported as changed.
+
+export interface FieldChange<T> {
+  before: T;
+  after: T;
+  fields: (keyof T)[];
+}
+
+export interface ListDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: FieldChange<T>[];
+  unchanged: number;
+}
+
+const norm = (s: string | undefined) => (s || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+export function diffBy<T>(before: T[] = [], after: T[] = [], key: (item: T) => string, fields: (keyof T)[]): ListDiff<T> {
+  const prev = new Map(before.map((item) => [key(item), item]));
+  const next = new Map(after.map((item) => [key(item), item]));
+  const diff: ListDiff<T> = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const [k, item] of next) {
+    const old = prev.get(k);
+    if (!old) { diff.added.push(item); continue; }
+    const changedFields = fields.filter((f) => norm(String(old[f] ?? '')) !== norm(String(item[f] ?? '')));
+    if (changedFields.length) diff.changed.push({ before: old, after: item, fields: changedFields });
+    else diff.unchanged++;
+  }
+  for (const [k, item] of prev) {
+    if (!next.has(k)) diff.removed.push(item);
+  }
+  return diff;
+}
+
+export interface AnalysisDiff {
+  complexity: { before?: number; after?: number; delta?: number; labelBefore?: string; labelAfter?: string };
+  redFlags: ListDiff<RedFlag>;
+  techStack: ListDiff<TechItem>;
+  dependencies: ListDiff<Dependency>;
+  techDebt: ListDiff<TechDebtItem>;
+}
+
+export function diffAnalyses(before: AnalysisData, after: AnalysisData): AnalysisDiff {
+  const b = before.insight?.complexityScore;
+  const a = after.insight?.complexityScore;
+  return {
+    complexity: {
+      before: b?.score,
+      after: a?.score,
+      delta: b && a ? a.score - b.score : undefined,
+      labelBefore: b?.label,
+      labelAfter: a?.label,
+    },
+    // A flag is "the same" if it describes the same issue at the same place
+    redFlags:     diffBy(before.insight?.redFlags, after.insight?.redFlags, (f) => norm(f.issue) + '@' + norm(f.location), ['severity', 'suggestion']),
+    techStack:    diffBy(before.codeReader?.techStack, after.codeReader?.techStack, (t) => norm(t.name), ['version', 'category']),
+    dependencies: diffBy(before.codeReader?.dependencies, after.codeReader?.dependencies, (d) => norm(d.name), ['risk']),
+    techDebt:     diffBy(before.insight?.techDebt, after.insight?.techDebt, (d) => norm(d.item), ['effort', 'impact']),
+  };
+}
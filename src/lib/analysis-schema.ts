@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import type { AnalysisData, AnalysisKey } from './analysis-types';
+
+// ─── Runtime schemas for agent results ────────────────────────────────────────
+//
+// Agent results are LLM output relayed by the backend, so nothing about their
+// shape is guaranteed. These schemas are the source of truth for the types in
+// analysis-types.ts and are used to validate every result before it reaches
+// the UI.
+
+export const TechItemSchema     = z.object({ name: z.string(), version: z.string().optional(), role: z.string(), category: z.string() });
+export const ModuleSchema       = z.object({ path: z.string(), purpose: z.string(), type: z.string() });
+export const DependencySchema   = z.object({ name: z.string(), purpose: z.string(), risk: z.string(), riskReason: z.string().optional() });
+export const GlossaryItemSchema = z.object({ term: z.string(), plain: z.string() });
+export const TechAnalogySchema  = z.object({ tech: z.string(), analogy: z.string(), what: z.string() });
+export const CEOSlideSchema     = z.object({ slideNumber: z.coerce.number(), title: z.string(), content: z.string(), speakerNote: z.string() });
+export const RedFlagSchema      = z.object({ severity: z.string(), issue: z.string(), location: z.string(), suggestion: z.string() });
+export const TechDebtItemSchema = z.object({ item: z.string(), effort: z.string(), impact: z.string() });
+
+export const CodeReaderResultSchema = z.object({
+  architectureMap: z.object({ mermaid: z.string(), description: z.string() }),
+  techStack: z.array(TechItemSchema),
+  modules: z.array(ModuleSchema),
+  dependencies: z.array(DependencySchema),
+});
+
+export const SimplifierResultSchema = z.object({
+  codeFlow: z.string(),
+  glossary: z.array(GlossaryItemSchema),
+  onboardingDoc: z.string(),
+});
+
+export const AnalogyResultSchema = z.object({
+  techAnalogies: z.array(TechAnalogySchema),
+  ceoSlides: z.array(CEOSlideSchema),
+});
+
+export const InsightResultSchema = z.object({
+  complexityScore: z.object({
+    score: z.coerce.number(),
+    label: z.string(),
+    reasoning: z.string(),
+    cleanParts: z.string().optional(),
+    overEngineered: z.string().optional(),
+  }),
+  redFlags: z.array(RedFlagSchema),
+  scalability: z.object({ canHandle10x: z.boolean(), bottleneck: z.string(), assessment: z.string() }),
+  techDebt: z.array(TechDebtItemSchema),
+  rebuildSuggestion: z.string(),
+});
+
+export const RESULT_SCHEMAS = {
+  codeReader: CodeReaderResultSchema,
+  simplifier: SimplifierResultSchema,
+  analogy:    AnalogyResultSchema,
+  insight:    InsightResultSchema,
+} as const;
+
+export const isAnalysisKey = (key: unknown): key is AnalysisKey =>
+  typeof key === 'string' && key in RESULT_SCHEMAS;
+
+// ─── Salvage ──────────────────────────────────────────────────────────────────
+//
+// A result that fails validation is not thrown away: every field that does
+// match its schema is kept, scalars that don't fall back to an empty value and
+// malformed array items are dropped. The UI can then render what survived and
+// flag the agent as degraded.
+
+function salvage(schema: z.ZodTypeAny, value: unknown): unknown {
+  const direct = schema.safeParse(value);
+  if (direct.success) return direct.data;
+
+  if (schema instanceof z.ZodOptional) return undefined;
+  if (schema instanceof z.ZodObject) {
+    const source = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+    const out: Record<string, unknown> = {};
+    for (const [field, fieldSchema] of Object.entries(schema.shape as z.ZodRawShape)) {
+      const v = salvage(fieldSchema, source[field]);
+      if (v !== undefined) out[field] = v;
+    }
+    return out;
+  }
+  if (schema instanceof z.ZodArray) {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap((item) => {
+      const r = schema.element.safeParse(item);
+      return r.success ? [r.data] : [];
+    });
+  }
+  if (schema instanceof z.ZodString)  return '';
+  if (schema instanceof z.ZodNumber)  return 0;
+  if (schema instanceof z.ZodBoolean) return false;
+  return undefined;
+}
+
+export interface ParsedResult<K extends AnalysisKey> {
+  data: NonNullable<AnalysisData[K]>;
+  /** Human-readable validation problems; empty when the result was valid. */
+  issues: string[];
+}
+
+export function parseAgentResult<K extends AnalysisKey>(key: K, raw: unknown): ParsedResult<K> {
+  const schema = RESULT_SCHEMAS[key];
+  const parsed = schema.safeParse(raw);
+  if (parsed.success) return { data: parsed.data as ParsedResult<K>['data'], issues: [] };
+
+  const issues = parsed.error.issues.map((i) => (i.path.length ? i.path.join('.') + ': ' : '') + i.message);
+  return { data: salvage(schema, raw) as ParsedResult<K>['data'], issues };
+}
+
+/** Validate a full `analysis_complete` / saved-report payload key by key. */
+export function parseAnalysisData(raw: unknown): { data: AnalysisData; issues: Partial<Record<AnalysisKey, string[]>> } {
+  const data: AnalysisData = {};
+  const issues: Partial<Record<AnalysisKey, string[]>> = {};
+  if (!raw || typeof raw !== 'object') return { data, issues };
+
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!isAnalysisKey(key) || value == null) continue;
+    const result = parseAgentResult(key, value);
+    (data as Record<AnalysisKey, unknown>)[key] = result.data;
+    if (result.issues.length) issues[key] = result.issues;
+  }
+  return { data, issues };
+}
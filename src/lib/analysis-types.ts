@@ -0,0 +1,71 @@
+import type { z } from 'zod';
+import type {
+  AnalogyResultSchema,
+  CEOSlideSchema,
+  CodeReaderResultSchema,
+  DependencySchema,
+  GlossaryItemSchema,
+  InsightResultSchema,
+  ModuleSchema,
+  RedFlagSchema,
+  SimplifierResultSchema,
+  TechAnalogySchema,
+  TechDebtItemSchema,
+  TechItemSchema,
+} from './analysis-schema';
+
+// ─── Shared result shapes produced by the four analysis agents ────────────────
+// Inferred from the zod schemas in analysis-schema.ts so the two never drift.
+
+export interface AgentStatus {
+  name: string;
+  key: string;
+  status: 'pending' | 'working' | 'complete' | 'error' | 'cancelled';
+  payment: number;
+  txId: string;
+  /** Account the payment went to, when the backend reported it. */
+  account?: string;
+  allocation: number;
+  /** Consensus time of the payment from the mirror node, ISO; absent until it is indexed. */
+  paidAt?: string;
+}
+
+export interface RepoMeta {
+  repoName: string;
+  fileCount: number;
+  languages: string[];
+}
+
+export type TechItem     = z.infer<typeof TechItemSchema>;
+export type Module       = z.infer<typeof ModuleSchema>;
+export type Dependency   = z.infer<typeof DependencySchema>;
+export type GlossaryItem = z.infer<typeof GlossaryItemSchema>;
+export type TechAnalogy  = z.infer<typeof TechAnalogySchema>;
+export type CEOSlide     = z.infer<typeof CEOSlideSchema>;
+export type RedFlag      = z.infer<typeof RedFlagSchema>;
+export type TechDebtItem = z.infer<typeof TechDebtItemSchema>;
+
+export type CodeReaderResult = z.infer<typeof CodeReaderResultSchema>;
+export type SimplifierResult = z.infer<typeof SimplifierResultSchema>;
+export type AnalogyResult    = z.infer<typeof AnalogyResultSchema>;
+export type InsightResult    = z.infer<typeof InsightResultSchema>;
+
+export interface AnalysisData {
+  codeReader?: CodeReaderResult;
+  simplifier?: SimplifierResult;
+  analogy?: AnalogyResult;
+  insight?: InsightResult;
+}
+
+export type AnalysisKey = keyof AnalysisData;
+
+/** A saved report as returned by GET /api/report/:shareId. */
+export interface ReportData {
+  repoName: string;
+  repoUrl:  string;
+  meta:     { fileCount: number; languages: string[] };
+  createdAt: string;
+  data: AnalysisData;
+  /** HCS topic holding the run's audit trail. */
+  topicId?: string;
+}
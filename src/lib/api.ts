@@ -0,0 +1,161 @@
+import { parseAgentEvent, type RefundEvent } from './agent-events';
+import { allocationParam, type Allocation } from './allocation';
+import { parseAnalysisData } from './analysis-schema';
+import type { ReportData } from './analysis-types';
+import type { EscrowFunding } from './escrow';
+
+// ─── PayStream backend API ────────────────────────────────────────────────────
+//
+// The one place that knows where the backend lives. The build default comes
+// from VITE_API_URL; the settings panel can override it per browser to point
+// the UI at staging or a local stand-in.
+
+const BUILD_API_BASE: string =
+  import.meta.env.VITE_API_URL || (import.meta.env.PROD ? 'https://paystream-backend-x8y9.onrender.com' : 'http://localhost:3001');
+
+const OVERRIDE_KEY = 'paystream.apiBase';
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+export const defaultApiBase = () => trimSlash(BUILD_API_BASE);
+
+export function getApiBaseOverride(): string | null {
+  try {
+    return localStorage.getItem(OVERRIDE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/** Point the UI at another backend; null goes back to the build default. */
+export function setApiBaseOverride(url: string | null): void {
+  const value = url ? trimSlash(url) : '';
+  try {
+    if (value && value !== defaultApiBase()) localStorage.setItem(OVERRIDE_KEY, value);
+    else localStorage.removeItem(OVERRIDE_KEY);
+  } catch {
+    // Storage disabled — nothing to persist the override in
+  }
+}
+
+export const getApiBase = () => getApiBaseOverride() || defaultApiBase();
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export type ApiErrorKind = 'not-found' | 'client' | 'server' | 'network' | 'timeout';
+
+export class ApiError extends Error {
+  constructor(public kind: ApiErrorKind, message: string, public status?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST';
+  timeoutMs?: number;
+  /** Message for a 404 — what "not found" means depends on the endpoint. */
+  notFound?: string;
+}
+
+// Every failure mode becomes an ApiError with a message fit for the UI
+async function request(path: string, { method = 'GET', timeoutMs = DEFAULT_TIMEOUT_MS, notFound = 'Not found.' }: RequestOptions = {}): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let res: Response;
+  try {
+    res = await fetch(getApiBase() + path, { method, signal: controller.signal });
+  } catch {
+    throw controller.signal.aborted
+      ? new ApiError('timeout', 'The PayStream server took too long to respond.')
+      : new ApiError('network', 'Could not reach the PayStream server.');
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (res.ok) return res.text();
+  if (res.status === 404) throw new ApiError('not-found', notFound, 404);
+  if (res.status >= 500) throw new ApiError('server', `The PayStream server had a problem (${res.status}). Please try again later.`, res.status);
+
+  // 4xx: the backend usually says what was wrong
+  const body = await res.json().catch(() => null);
+  throw new ApiError('client', typeof body?.error === 'string' ? body.error : `Request failed (${res.status}).`, res.status);
+}
+
+// ─── Endpoints ────────────────────────────────────────────────────────────────
+//
+// runTask and analyzeRepo are SSE streams: they return the URL to hand to
+// useAgentStream().start(), which owns the connection and its reconnects.
+// Each run carries a client-minted `runId`, so it can be cancelled before the
+// server has sent anything back.
+
+export const newRunId = (): string =>
+  crypto.randomUUID?.() ?? Date.now().toString(36) + Math.random().toString(36).slice(2);
+
+export interface RunTaskParams {
+  task: string;
+  budget: number;
+  escrow?: EscrowFunding | null;
+  /** Defaults to a freshly minted id. */
+  runId?: string;
+}
+
+export interface AnalyzeRepoParams {
+  repo: string;
+  budget: number;
+  escrow?: EscrowFunding | null;
+  /** Per-agent split of the budget; the backend splits evenly without one. */
+  allocation?: Allocation;
+  /** Defaults to a freshly minted id. */
+  runId?: string;
+}
+
+const query = (params: Record<string, string | number | undefined>) =>
+  Object.entries(params)
+    .filter(([, v]) => v !== undefined && v !== '')
+    .map(([k, v]) => encodeURIComponent(k) + '=' + encodeURIComponent(String(v)))
+    .join('&');
+
+// The funding transfer, and where the backend should refund the unspent budget
+const escrowQuery = (escrow?: EscrowFunding | null) =>
+  escrow ? { fundingTxId: escrow.txId, refundAccount: escrow.accountId } : {};
+
+export const runTask = ({ task, budget, escrow, runId = newRunId() }: RunTaskParams) =>
+  getApiBase() + '/api/run?' + query({ task, budget, ...escrowQuery(escrow), runId });
+
+export const analyzeRepo = ({ repo, budget, escrow, allocation, runId = newRunId() }: AnalyzeRepoParams) =>
+  getApiBase() + '/api/analyze?' + query({
+    repo,
+    budget,
+    allocation: allocation && allocationParam(allocation),
+    ...escrowQuery(escrow),
+    runId,
+  });
+
+/** A shared report, with its agent output validated like a live run's. */
+export async function getReport(shareId: string): Promise<ReportData> {
+  const text = await request('/api/report/' + encodeURIComponent(shareId), { notFound: 'Report not found or expired.' });
+  let raw;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    // A proxy or host error page served with 200 instead of the report
+    throw new ApiError('server', 'The PayStream server sent an unexpected response.');
+  }
+  return { ...raw, data: parseAnalysisData(raw?.data).data };
+}
+
+/**
+ * Ask the backend to stop a run. Pending agents are halted and the unspent
+ * budget is refunded; the response carries that refund in the same shape as
+ * the stream's refund event (or no body if nothing was left to refund).
+ */
+export async function cancelRun(runId: string): Promise<RefundEvent | null> {
+  const text = await request('/api/runs/' + encodeURIComponent(runId) + '/cancel', {
+    method: 'POST',
+    notFound: 'Run not found or already finished.',
+  });
+  const event = text ? parseAgentEvent(text) : null;
+  return event?.type === 'refund' ? event : null;
+}
@@ -0,0 +1,62 @@
+import type { Module } from './analysis-types';
+
+// ─── Architecture map ↔ module cards ──────────────────────────────────────────
+//
+// The Code Reader returns the map as free-form Mermaid and the modules as a
+// separate list, with nothing tying the two together. Nodes are matched to
+// modules by the words they share: `API[API Server]` ↔ `src/api/`, or
+// `Auth[Auth Service]` ↔ `services/auth.ts`.
+
+export interface DiagramNode {
+  /** Mermaid node id, e.g. `API` in `API[API Server]`. */
+  id: string;
+  label: string;
+}
+
+// Path and label words that say nothing about which module is meant
+const NOISE = new Set([
+  'src', 'lib', 'app', 'apps', 'index', 'main', 'mod', 'pkg', 'packages', 'internal',
+  'ts', 'tsx', 'js', 'jsx', 'py', 'go', 'rs', 'java', 'rb', 'the', 'and', 'of', 'a',
+]);
+
+// Trailing s only — enough for services/service, components/component
+const stem = (word: string) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+
+export const tokenize = (text: string): Set<string> =>
+  new Set(
+    text
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((w) => w && !NOISE.has(w))
+      .map(stem),
+  );
+
+/** Mermaid node id from a rendered `g.node`, whichever way this version tags it. */
+export function nodeIdFromElement(el: Element): string | null {
+  const dataId = el.getAttribute('data-id');
+  if (dataId) return dataId;
+  const match = el.id.match(/flowchart-(.+)-\d+$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Best module for each node: the one sharing the most words with the node's
+ * id and label. Nodes with nothing in common with any module stay unlinked.
+ */
+export function matchNodesToModules(nodes: DiagramNode[], modules: Pick<Module, 'path'>[]): Record<string, number> {
+  const moduleTokens = modules.map((m) => tokenize(m.path));
+  const links: Record<string, number> = {};
+  for (const node of nodes) {
+    const words = tokenize(node.id + ' ' + node.label);
+    let best = -1;
+    let bestScore = 0;
+    moduleTokens.forEach((tokens, i) => {
+      let score = 0;
+      tokens.forEach((t) => { if (words.has(t)) score++; });
+      if (score > bestScore) { best = i; bestScore = score; }
+    });
+    if (best >= 0) links[node.id] = best;
+  }
+  return links;
+}
@@ -0,0 +1,55 @@
+import type { CEOSlide } from './analysis-types';
+import { fileStem } from './download';
+
+// ─── CEO deck ─────────────────────────────────────────────────────────────────
+
+/** Accent colour per slide, cycled — shared by every deck view and export. */
+export const SLIDE_COLORS = ['#8B5CF6', '#38B2F6', '#FBBF24', '#10B981', '#F472B6'];
+
+export const slideColor = (index: number) => SLIDE_COLORS[index % SLIDE_COLORS.length];
+
+// pptxgenjs wants bare hex
+const hex = (color: string) => color.replace('#', '').toUpperCase();
+
+const deckFileName = (repoName: string) => fileStem(repoName) + '-ceo-deck.pptx';
+
+/**
+ * Build the CEO deck as a .pptx in the browser and trigger a download.
+ * Each slide gets its SLIDE_COLORS accent; the speaker note goes into the
+ * presenter notes. pptxgenjs is loaded on demand to keep it out of the main
+ * bundle.
+ */
+export async function exportDeckToPptx(slides: CEOSlide[], repoName: string): Promise<void> {
+  const { default: PptxGenJS } = await import('pptxgenjs');
+  const pptx = new PptxGenJS();
+  pptx.layout  = 'LAYOUT_WIDE'; // 13.33 x 7.5 in
+  pptx.title   = `${repoName} — CEO Deck`;
+  pptx.company = 'PayStream';
+
+  slides.forEach((slide, i) => {
+    const col = hex(slideColor(i));
+    const s = pptx.addSlide();
+    s.background = { color: '020B18' };
+
+    s.addShape(pptx.ShapeType.rect, { x: 0, y: 0, w: 13.33, h: 0.12, fill: { color: col }, line: { color: col } });
+    s.addText(`SLIDE ${slide.slideNumber || i + 1}`, {
+      x: 0.6, y: 0.45, w: 6, h: 0.4,
+      fontFace: 'Arial', fontSize: 12, bold: true, color: col, charSpacing: 3,
+    });
+    s.addText(slide.title, {
+      x: 0.6, y: 0.9, w: 12.1, h: 1.0,
+      fontFace: 'Arial', fontSize: 32, bold: true, color: 'E8F4FF', valign: 'top',
+    });
+    s.addText(slide.content, {
+      x: 0.6, y: 2.1, w: 12.1, h: 4.6,
+      fontFace: 'Arial', fontSize: 18, color: 'C8D4E6', valign: 'top', paraSpaceAfter: 8,
+    });
+    s.addText(repoName, {
+      x: 0.6, y: 6.85, w: 12.1, h: 0.35,
+      fontFace: 'Arial', fontSize: 10, color: '5A6B85',
+    });
+    if (slide.speakerNote) s.addNotes(slide.speakerNote);
+  });
+
+  await pptx.writeFile({ fileName: deckFileName(repoName) });
+}
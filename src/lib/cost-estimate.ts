@@ -0,0 +1,78 @@
+import { ALLOCATION_KEYS, plannedSpend, type Allocation } from './allocation';
+import type { AnalysisKey, RepoMeta } from './analysis-types';
+
+// ─── Pre-flight cost estimate ─────────────────────────────────────────────────
+//
+// A rough model of what each agent charges for a repo, so the budget can be
+// sized before any HBAR moves. Agents are paid per token; their input grows
+// with the number of files (counted up to MAX_FILES) and a little with each
+// extra language they have to explain. The rates below are a
+// starting point to tune as real runs come in — a guide, not a quote.
+
+interface AgentRate {
+  /** HBAR for the prompt, instructions and a minimal repo. */
+  base: number;
+  /** HBAR per 100 files read. */
+  perHundredFiles: number;
+}
+
+const RATES: Record<AnalysisKey, AgentRate> = {
+  codeReader: { base: 0.12, perHundredFiles: 0.045 },
+  simplifier: { base: 0.10, perHundredFiles: 0.030 },
+  analogy:    { base: 0.08, perHundredFiles: 0.010 },
+  insight:    { base: 0.12, perHundredFiles: 0.040 },
+};
+
+const MAX_FILES = 1500;
+const PER_EXTRA_LANGUAGE = 0.04;
+const MAX_LANGUAGE_FACTOR = 1.3;
+
+// Headroom on the recommendation so an agent that runs long still finishes
+const SAFETY_MARGIN = 1.25;
+const BUDGET_STEP = 0.5;
+export const MIN_BUDGET = 0.5;
+export const MAX_BUDGET = 5;
+
+export interface CostEstimate {
+  perAgent: Allocation;
+  total: number;
+  /** Smallest slider value that covers the estimate with headroom. */
+  recommended: number;
+  /** Even the maximum budget is unlikely to cover this repo. */
+  exceedsMax: boolean;
+}
+
+export function estimateCost(meta: Pick<RepoMeta, 'fileCount' | 'languages'>): CostEstimate {
+  const files = Math.min(meta.fileCount, MAX_FILES);
+  const languageFactor = Math.min(1 + Math.max(0, meta.languages.length - 1) * PER_EXTRA_LANGUAGE, MAX_LANGUAGE_FACTOR);
+
+  const perAgent = Object.fromEntries(ALLOCATION_KEYS.map((key) => {
+    const rate = RATES[key];
+    return [key, (rate.base + (files / 100) * rate.perHundredFiles) * languageFactor];
+  })) as Allocation;
+  const total = ALLOCATION_KEYS.reduce((sum, key) => sum + perAgent[key], 0);
+
+  const wanted = Math.ceil((total * SAFETY_MARGIN) / BUDGET_STEP) * BUDGET_STEP;
+  return {
+    perAgent,
+    total,
+    recommended: Math.min(Math.max(wanted, MIN_BUDGET), MAX_BUDGET),
+    exceedsMax: total > MAX_BUDGET,
+  };
+}
+
+export interface BudgetWarning {
+  /** Agents whose planned share is below their estimated cost. */
+  shortAgents: AnalysisKey[];
+  /** The whole budget is below the estimated total. */
+  shortTotal: boolean;
+}
+
+/** Where the chosen budget and split are likely to run out mid-analysis. */
+export function checkBudget(estimate: CostEstimate, budget: number, allocation: Allocation): BudgetWarning {
+  const planned = plannedSpend(allocation, budget);
+  return {
+    shortAgents: ALLOCATION_KEYS.filter((key) => planned[key] < estimate.perAgent[key]),
+    shortTotal: budget < estimate.total,
+  };
+}
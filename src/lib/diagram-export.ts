@@ -0,0 +1,100 @@
+import { downloadBlob, downloadText } from './download';
+
+// ─── Diagram export ───────────────────────────────────────────────────────────
+//
+// Rendered Mermaid diagrams out of the page: standalone SVG, PNG rasterised
+// through a canvas, the `.mmd` source, or a PNG on the clipboard for pasting
+// into docs and slides. Mermaid's dark themes draw on a transparent canvas,
+// so exports get the on-screen background painted in.
+
+export type DiagramFormat = 'svg' | 'png' | 'png@2x' | 'mmd';
+
+export const DEFAULT_DIAGRAM_BACKGROUND = '#0d1117';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+export interface SerializedSvg {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+// viewBox is the diagram's natural size, whatever the page has scaled it to
+function naturalSize(svg: SVGSVGElement): { width: number; height: number } {
+  const box = (svg.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+  if (box.length === 4 && box[2] > 0 && box[3] > 0) return { width: box[2], height: box[3] };
+  const rect = svg.getBoundingClientRect();
+  return { width: rect.width || 800, height: rect.height || 600 };
+}
+
+/** Standalone SVG document for a rendered diagram, sized to its viewBox. */
+export function serializeSvg(svg: SVGSVGElement, background = DEFAULT_DIAGRAM_BACKGROUND): SerializedSvg {
+  const { width, height } = naturalSize(svg);
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  // Drop page-side sizing (max-width, pan/zoom) in favour of the explicit size
+  clone.removeAttribute('style');
+  if (background) clone.setAttribute('style', 'background-color: ' + background);
+  const markup = '<?xml version="1.0" encoding="UTF-8"?>\n' + new XMLSerializer().serializeToString(clone);
+  return { markup, width, height };
+}
+
+/** Rasterise a rendered diagram to PNG at `scale` × its natural size. */
+export async function svgToPng(svg: SVGSVGElement, scale = 1, background = DEFAULT_DIAGRAM_BACKGROUND): Promise<Blob> {
+  const { markup, width, height } = serializeSvg(svg, background);
+  const img = new Image();
+  // A data: URL rather than a blob: URL — Chrome taints canvases drawn from
+  // blob-URL SVGs that contain foreignObject, which Mermaid's HTML labels use
+  img.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(markup);
+  await img.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * scale);
+  canvas.height = Math.ceil(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser.');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    try {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG.'))), 'image/png');
+    } catch {
+      reject(new Error('This browser blocked rasterising the diagram. Download the SVG instead.'));
+    }
+  });
+}
+
+export const diagramFileName = (stem: string, format: DiagramFormat) =>
+  stem + (format === 'png@2x' ? '@2x.png' : '.' + format);
+
+/**
+ * Save a diagram in the given format. `svg` may be null when rendering
+ * failed, in which case only the source can be exported.
+ */
+export async function downloadDiagram(
+  format: DiagramFormat,
+  stem: string,
+  source: string,
+  svg: SVGSVGElement | null,
+  background = DEFAULT_DIAGRAM_BACKGROUND,
+): Promise<void> {
+  const fileName = diagramFileName(stem, format);
+  if (format === 'mmd') return downloadText(source.trim() + '\n', fileName);
+  if (!svg) throw new Error('The diagram did not render; only its source can be exported.');
+  if (format === 'svg') return downloadText(serializeSvg(svg, background).markup, fileName, 'image/svg+xml');
+  downloadBlob(await svgToPng(svg, format === 'png@2x' ? 2 : 1, background), fileName);
+}
+
+/** Put the diagram on the clipboard as a 2x PNG. */
+export async function copyDiagramImage(svg: SVGSVGElement, background = DEFAULT_DIAGRAM_BACKGROUND): Promise<void> {
+  if (!navigator.clipboard?.write || typeof ClipboardItem === 'undefined') {
+    throw new Error('This browser cannot copy images. Download the PNG instead.');
+  }
+  // Handing ClipboardItem the promise keeps Safari's user-gesture check happy
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': svgToPng(svg, 2, background) })]);
+}
@@ -0,0 +1,37 @@
+// ─── Browser downloads ────────────────────────────────────────────────────────
+
+/** Filesystem-safe slug of a repo name, used as the stem of exported files. */
+export const fileStem = (repoName: string) =>
+  (repoName || 'paystream').replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'paystream';
+
+// Spreadsheets run a cell starting with one of these as a formula; plain
+// numbers like -1.5 are the one thing that may start that way
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(?:\.\d+)?$/;
+
+const csvCell = (cell: string | number) => {
+  const text = String(cell);
+  const safe = typeof cell === 'string' && FORMULA_START.test(text) && !PLAIN_NUMBER.test(text) ? "'" + text : text;
+  return '"' + safe.replace(/"/g, '""') + '"';
+};
+
+/** RFC 4180 CSV: every cell quoted, embedded quotes doubled, CRLF rows. */
+export const toCsv = (rows: (string | number)[][]) =>
+  rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+/** Save a blob as a file via a temporary object URL. */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Let the click's navigation start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Save a string as a file. */
+export const downloadText = (content: string, fileName: string, mimeType = 'text/plain') =>
+  downloadBlob(new Blob([content], { type: mimeType + ';charset=utf-8' }), fileName);
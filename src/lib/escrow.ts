@@ -0,0 +1,73 @@
+import { WalletError, type WalletAdapter } from './wallet';
+import { getNetwork } from './hedera-network';
+
+// ─── Budget escrow ────────────────────────────────────────────────────────────
+//
+// A connected wallet pays for its own run: the whole budget is transferred to
+// the PayStream escrow account up front, the backend pays agents out of it,
+// and whatever is left is refunded to the same account.
+
+export interface EscrowFunding {
+  /** Hedera transaction id of the escrow transfer, e.g. 0.0.1234@1700000000.000000000 */
+  txId: string;
+  /** Account that funded the run — refunds go back here. */
+  accountId: string;
+  amount: number;
+}
+
+const ESCROW_MEMO = 'PayStream budget escrow';
+
+export const escrowAccountId = (): string | undefined => import.meta.env.VITE_ESCROW_ACCOUNT_ID || undefined;
+
+/**
+ * Whether a run started with `wallet` escrows its own budget. Without an
+ * escrow account, or with the mock wallet, it runs unfunded and the server
+ * fronts the budget as it does for anonymous runs.
+ */
+export const fundsOwnRun = (wallet: WalletAdapter): boolean =>
+  wallet.id !== 'mock' && !!escrowAccountId();
+
+/**
+ * Ask the wallet to sign an HBAR transfer of `amount` into escrow, submit it
+ * and wait for consensus. Throws a WalletError if the user declines or the
+ * network rejects the transfer — the run must not start in either case.
+ *
+ * Resolves null for the mock wallet, which can't sign for real: nothing is
+ * escrowed, so the run goes ahead unfunded and the server fronts it.
+ */
+export async function fundBudget(wallet: WalletAdapter, amount: number): Promise<EscrowFunding | null> {
+  const from = wallet.accountId();
+  if (!from) throw new WalletError('not-connected', 'Connect a wallet to fund the budget.');
+  if (wallet.id === 'mock') return null;
+  const escrow = escrowAccountId();
+  if (!escrow) throw new WalletError('not-configured', 'No escrow account is configured (VITE_ESCROW_ACCOUNT_ID).');
+
+  const { Client, Hbar, Status, Transaction, TransactionId, TransferTransaction } = await import('@hashgraph/sdk');
+  const client = Client.forName(getNetwork());
+
+  try {
+    const transactionId = TransactionId.generate(from);
+    const txId = transactionId.toString();
+    const transfer = new TransferTransaction()
+      .addHbarTransfer(from, new Hbar(-amount))
+      .addHbarTransfer(escrow, new Hbar(amount))
+      .setTransactionId(transactionId)
+      .setTransactionMemo(ESCROW_MEMO)
+      .freezeWith(client);
+
+    const signed = await wallet.signTransaction(transfer.toBytes());
+
+    let status;
+    try {
+      const response = await Transaction.fromBytes(signed).execute(client);
+      status = (await response.getReceipt(client)).status;
+    } catch (e) {
+      throw new WalletError('network', 'Escrow transfer failed: ' + (e instanceof Error ? e.message : String(e)));
+    }
+    if (status !== Status.Success) throw new WalletError('network', `Escrow transfer was not accepted (${status.toString()}).`);
+
+    return { txId, accountId: from, amount };
+  } finally {
+    client.close();
+  }
+}
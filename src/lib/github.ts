@@ -0,0 +1,69 @@
+import type { RepoMeta } from './analysis-types';
+
+// ─── GitHub repo lookup ───────────────────────────────────────────────────────
+//
+// Just enough of the public GitHub REST API to size a repo before a run —
+// the same facts the backend reports as RepoMeta once it has fetched it.
+// Unauthenticated, so subject to GitHub's per-IP rate limit.
+
+const GITHUB_API = 'https://api.github.com';
+
+export interface RepoSize extends RepoMeta {
+  /** Repository size as GitHub reports it, in KB. */
+  sizeKb: number;
+  /** GitHub stopped listing files early — fileCount is a lower bound. */
+  truncated: boolean;
+}
+
+const REPO_URL = /^(?:https?:\/\/)?(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:[/?#].*)?$/i;
+
+/** owner/repo from a github.com URL, else null. */
+export function parseGitHubRepo(url: string): { owner: string; repo: string } | null {
+  const match = url.trim().match(REPO_URL);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+/** Whether two repo URLs name the same GitHub repository (case, .git and trailing paths aside). */
+export function sameRepo(a: string, b: string): boolean {
+  const x = parseGitHubRepo(a);
+  const y = parseGitHubRepo(b);
+  if (!x || !y) return a.trim().toLowerCase() === b.trim().toLowerCase();
+  return x.owner.toLowerCase() === y.owner.toLowerCase() && x.repo.toLowerCase() === y.repo.toLowerCase();
+}
+
+async function getJson(path: string) {
+  let res: Response;
+  try {
+    res = await fetch(GITHUB_API + path, { headers: { Accept: 'application/vnd.github+json' } });
+  } catch {
+    throw new Error('Could not reach GitHub.');
+  }
+  if (res.status === 404) throw new Error('Repository not found (or it is private).');
+  if (res.status === 403 || res.status === 429) throw new Error('GitHub rate limit reached — try again in a few minutes.');
+  if (!res.ok) throw new Error(`GitHub returned ${res.status}.`);
+  return res.json();
+}
+
+/** Name, file count and languages (largest first) of a public repo. */
+export async function fetchRepoSize(url: string): Promise<RepoSize> {
+  const parsed = parseGitHubRepo(url);
+  if (!parsed) throw new Error('Not a GitHub repository URL.');
+  const base = `/repos/${encodeURIComponent(parsed.owner)}/${encodeURIComponent(parsed.repo)}`;
+
+  const info = await getJson(base);
+  const [languages, tree] = await Promise.all([
+    getJson(base + '/languages'),
+    getJson(`${base}/git/trees/${encodeURIComponent(info.default_branch)}?recursive=1`),
+  ]);
+
+  const entries: Array<{ type?: string }> = Array.isArray(tree?.tree) ? tree.tree : [];
+  return {
+    repoName: String(info.full_name ?? `${parsed.owner}/${parsed.repo}`),
+    fileCount: entries.filter((e) => e.type === 'blob').length,
+    languages: Object.entries((languages ?? {}) as Record<string, number>)
+      .sort(([, a], [, b]) => b - a)
+      .map(([name]) => name),
+    sizeKb: Number(info.size) || 0,
+    truncated: !!tree?.truncated,
+  };
+}
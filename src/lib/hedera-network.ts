@@ -0,0 +1,75 @@
+// ─── Hedera network ───────────────────────────────────────────────────────────
+//
+// Which ledger the app talks to: explorer links, mirror-node reads and the
+// wallet session all follow this one setting. The build default comes from
+// VITE_HEDERA_NETWORK; the toggle in the wallet menu overrides it per browser.
+
+export type HederaNetwork = 'testnet' | 'previewnet' | 'mainnet';
+
+interface NetworkConfig {
+  label: string;
+  mirrorNodeUrl: string;
+  hashscanUrl: string;
+}
+
+export const HEDERA_NETWORKS: Record<HederaNetwork, NetworkConfig> = {
+  testnet:    { label: 'Hedera Testnet',    mirrorNodeUrl: 'https://testnet.mirrornode.hedera.com',    hashscanUrl: 'https://hashscan.io/testnet' },
+  previewnet: { label: 'Hedera Previewnet', mirrorNodeUrl: 'https://previewnet.mirrornode.hedera.com', hashscanUrl: 'https://hashscan.io/previewnet' },
+  mainnet:    { label: 'Hedera Mainnet',    mirrorNodeUrl: 'https://mainnet.mirrornode.hedera.com',    hashscanUrl: 'https://hashscan.io/mainnet' },
+};
+
+export const isHederaNetwork = (value: unknown): value is HederaNetwork =>
+  typeof value === 'string' && value in HEDERA_NETWORKS;
+
+const STORAGE_KEY = 'paystream.network';
+
+export const defaultNetwork = (): HederaNetwork => {
+  const fromEnv = import.meta.env.VITE_HEDERA_NETWORK;
+  return isHederaNetwork(fromEnv) ? fromEnv : 'testnet';
+};
+
+const readStored = (): HederaNetwork | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isHederaNetwork(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+let current: HederaNetwork = readStored() ?? defaultNetwork();
+const listeners = new Set<() => void>();
+
+export const getNetwork = () => current;
+
+export function setNetwork(network: HederaNetwork): void {
+  if (network === current) return;
+  current = network;
+  try {
+    if (network === defaultNetwork()) localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, network);
+  } catch {
+    // Storage disabled — the choice lasts for this page load only
+  }
+  listeners.forEach((l) => l());
+}
+
+export function subscribeNetwork(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+// ─── Derived endpoints ────────────────────────────────────────────────────────
+
+export const networkLabel = (network = current) => HEDERA_NETWORKS[network].label;
+
+export const mirrorNodeUrl = (network = current) => HEDERA_NETWORKS[network].mirrorNodeUrl;
+
+export const hashscanTxUrl = (txId: string, network = current) =>
+  `${HEDERA_NETWORKS[network].hashscanUrl}/transaction/${txId}`;
+
+export const hashscanAccountUrl = (accountId: string, network = current) =>
+  `${HEDERA_NETWORKS[network].hashscanUrl}/account/${accountId}`;
+
+export const hashscanTopicUrl = (topicId: string, network = current) =>
+  `${HEDERA_NETWORKS[network].hashscanUrl}/topic/${topicId}`;
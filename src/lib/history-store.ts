@@ -0,0 +1,85 @@
+import type { AgentStatus, AnalysisData, RepoMeta } from './analysis-types';
+import type { EscrowFunding } from './escrow';
+import type { HederaNetwork } from './hedera-network';
+
+// ─── Local analysis history (IndexedDB) ───────────────────────────────────────
+//
+// Every finished /analyze run is kept in the browser so it can be reopened
+// without paying for it again, and every wallet-funded one from the moment
+// its escrow lands, so the ledger sees that HBAR even if the run then fails.
+// Records are upserted by id, so saving the same run repeatedly as it
+// progresses is safe.
+
+/**
+ * How a run ended. `partial` runs kept some results but not all of them
+ * (an agent failed, a result came back malformed, or the stream dropped).
+ */
+export type HistoryStatus = 'complete' | 'partial' | 'cancelled' | 'failed';
+
+export interface HistoryEntry {
+  id: string;
+  /** Absent on records saved before runs had a status; those completed. */
+  status?: HistoryStatus;
+  repoUrl: string;
+  repoMeta: RepoMeta | null;
+  data: AnalysisData;
+  agents: AgentStatus[];
+  budget: number;
+  /** `at` is the refund's consensus time, once the mirror node has it. */
+  refund: { amount: number; txId: string; at?: string } | null;
+  /** Escrow transfer that paid for the run; absent for anonymous runs. */
+  funding?: EscrowFunding | null;
+  network?: HederaNetwork;
+  shareId?: string;
+  topicId?: string;
+  createdAt: string;
+}
+
+const DB_NAME    = 'paystream';
+const DB_VERSION = 1;
+const RUNS       = 'runs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') { reject(new Error('IndexedDB is not available in this browser.')); return; }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(RUNS)) {
+        db.createObjectStore(RUNS, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror   = () => reject(req.error);
+  });
+  // Let a later call retry if opening failed (e.g. private mode quota)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then((db) => new Promise<T>((resolve, reject) => {
+    const req = fn(db.transaction(RUNS, mode).objectStore(RUNS));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror   = () => reject(req.error);
+  }));
+}
+
+export const entryStatus = (entry: HistoryEntry): HistoryStatus => entry.status ?? 'complete';
+
+export const saveRun = (entry: HistoryEntry) =>
+  run('readwrite', (s) => s.put(entry)).then(() => undefined);
+
+export const getRun = (id: string) =>
+  run<HistoryEntry | undefined>('readonly', (s) => s.get(id));
+
+export const deleteRun = (id: string) =>
+  run('readwrite', (s) => s.delete(id)).then(() => undefined);
+
+/** All saved runs, newest first. */
+export const listRuns = () =>
+  run<HistoryEntry[]>('readonly', (s) => s.getAll())
+    .then((runs) => runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
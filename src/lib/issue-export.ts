@@ -0,0 +1,100 @@
+import type { RedFlag, TechDebtItem } from './analysis-types';
+import { downloadText, fileStem, toCsv } from './download';
+
+// ─── Issue drafts from red flags and tech debt ────────────────────────────────
+//
+// One markdown issue body per item, ready to paste into GitHub or Jira, plus
+// the bulk formats: a single .md bundle and an importable CSV.
+
+export type IssueSource =
+  | { kind: 'redFlag'; item: RedFlag }
+  | { kind: 'techDebt'; item: TechDebtItem };
+
+export interface IssueDraft {
+  title: string;
+  labels: string[];
+  priority: JiraPriority;
+  body: string;
+}
+
+export type JiraPriority = 'Highest' | 'High' | 'Medium' | 'Low';
+
+// Jira's default priority scheme; anything unrecognised lands in the middle
+const JIRA_PRIORITY: Record<string, JiraPriority> = {
+  critical: 'Highest', high: 'High', medium: 'Medium', low: 'Low', info: 'Low',
+};
+
+export const jiraPriority = (level: string | undefined): JiraPriority =>
+  JIRA_PRIORITY[(level || '').trim().toLowerCase()] ?? 'Medium';
+
+const oneLine = (s: string) => s.replace(/\s+/g, ' ').trim();
+
+// GitHub truncates long titles in lists; keep them scannable
+const shortTitle = (s: string, max = 80) => {
+  const t = oneLine(s);
+  return t.length > max ? t.slice(0, max - 1).trimEnd() + '…' : t;
+};
+
+export function toIssue(source: IssueSource, repoName: string): IssueDraft {
+  const footer = `\n---\n_Generated by PayStream from an analysis of \`${repoName}\`._\n`;
+
+  if (source.kind === 'redFlag') {
+    const f = source.item;
+    return {
+      title: shortTitle(f.issue),
+      labels: ['paystream', 'red-flag', 'severity:' + (f.severity || 'unknown').toLowerCase()],
+      priority: jiraPriority(f.severity),
+      body: [
+        `**Severity:** ${f.severity || 'unknown'}`,
+        ...(f.location ? [`**Location:** \`${oneLine(f.location)}\``] : []),
+        '',
+        '### Problem',
+        f.issue,
+        '',
+        '### Suggested fix',
+        f.suggestion || '_No suggestion given._',
+      ].join('\n') + '\n' + footer,
+    };
+  }
+
+  const d = source.item;
+  return {
+    title: shortTitle('Tech debt: ' + d.item),
+    labels: ['paystream', 'tech-debt', 'effort:' + (d.effort || 'unknown').toLowerCase(), 'impact:' + (d.impact || 'unknown').toLowerCase()],
+    priority: jiraPriority(d.impact),
+    body: [
+      `**Effort:** ${d.effort || 'unknown'} · **Impact:** ${d.impact || 'unknown'}`,
+      '',
+      '### Description',
+      d.item,
+    ].join('\n') + '\n' + footer,
+  };
+}
+
+/** Every issue in one markdown document, separated by rules, each headed by its title. */
+export function issuesToMarkdown(issues: IssueDraft[], repoName: string): string {
+  const header = `# PayStream issues — ${repoName}\n\n${issues.length} issue${issues.length === 1 ? '' : 's'}\n`;
+  return header + issues.map((i) =>
+    `\n---\n\n## ${i.title}\n\nLabels: ${i.labels.map((l) => '`' + l + '`').join(' ')}\n\n${i.body}`,
+  ).join('');
+}
+
+/**
+ * CSV with the columns both GitHub import tools and Jira's CSV importer can
+ * map. Jira takes one label per column, so `Labels` repeats as often as the
+ * most-labelled issue needs.
+ */
+export function issuesToCsv(issues: IssueDraft[]): string {
+  const labelColumns = Math.max(1, ...issues.map((i) => i.labels.length));
+  const labels = (i: IssueDraft) => Array.from({ length: labelColumns }, (_, n) => i.labels[n] ?? '');
+  return toCsv([
+    ['Title', 'Body', 'Priority', ...Array<string>(labelColumns).fill('Labels')],
+    ...issues.map((i) => [i.title, i.body, i.priority, ...labels(i)]),
+  ]);
+}
+
+export const downloadIssuesMarkdown = (issues: IssueDraft[], repoName: string) =>
+  downloadText(issuesToMarkdown(issues, repoName), fileStem(repoName) + '-issues.md', 'text/markdown');
+
+export const downloadIssuesCsv = (issues: IssueDraft[], repoName: string) =>
+  downloadText(issuesToCsv(issues), fileStem(repoName) + '-issues.csv', 'text/csv');
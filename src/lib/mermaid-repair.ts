@@ -0,0 +1,337 @@
+// ─── Mermaid auto-repair ──────────────────────────────────────────────────────
+//
+// Model-written Mermaid fails in a handful of predictable ways: prose or
+// fences around the chart, labels with brackets or quotes left unquoted, `end`
+// used as a node id, arrows typed as `->` or `=>`, doubled semicolons and
+// trailing `%%` comments. Each pass below fixes one of those and records
+// what it changed, so a chart that still fails can say what was already tried
+// and where mermaid gave up.
+//
+// Line-level passes only run on flowcharts — sequence diagrams, for one, use
+// `->>` and `->` legitimately.
+
+export type RepairRule = 'fence' | 'header' | 'comment' | 'semicolon' | 'arrow' | 'reserved-id' | 'label' | 'edge-label';
+
+export interface RepairFix {
+  rule: RepairRule;
+  /** 1-based line in the repaired chart. */
+  line: number;
+  detail: string;
+}
+
+export interface RepairResult {
+  chart: string;
+  fixes: RepairFix[];
+}
+
+// Every header mermaid's own diagram detection recognises
+export const DIAGRAM_KEYWORDS = [
+  'graph', 'flowchart', 'flowchart-elk', 'sequenceDiagram', 'classDiagram', 'classDiagram-v2',
+  'stateDiagram', 'stateDiagram-v2', 'erDiagram', 'gantt', 'pie', 'journey', 'mindmap', 'timeline',
+  'gitGraph', 'quadrantChart', 'requirement', 'requirementDiagram', 'C4Context', 'C4Container',
+  'C4Component', 'C4Dynamic', 'C4Deployment', 'xychart', 'xychart-beta', 'sankey', 'sankey-beta',
+  'block', 'block-beta', 'packet', 'packet-beta', 'architecture', 'architecture-beta', 'kanban',
+  'radar-beta', 'treemap', 'treemap-beta', 'zenuml', 'info',
+];
+
+const diagramKeyword = (line: string): string | null => {
+  const word = line.trim().match(/^[\w-]+/)?.[0];
+  return word && DIAGRAM_KEYWORDS.includes(word) ? word : null;
+};
+
+/**
+ * Lines before the diagram's header: `---` frontmatter, `%%{init}%%`
+ * directives, comments and blank lines.
+ */
+function preambleLength(lines: string[]): number {
+  let i = 0;
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((l, j) => j > 0 && l.trim() === '---');
+    if (end > 0) i = end + 1;
+  }
+  while (i < lines.length && (!lines[i].trim() || /^\s*%%/.test(lines[i]))) i++;
+  return i;
+}
+
+// A flowchart's first statement, as a model would write it without the
+// header: a node, maybe shaped, linked or chained, or a subgraph or style
+const FLOWCHART_STATEMENT = /^\s*(?:subgraph\b|classDef\b|class\b|style\b|linkStyle\b|[\w-]+\s*(?:$|;|&|:::|[[({>]|--|-\.|==|~~~|<-))/;
+
+// ─── Whole-chart passes ───────────────────────────────────────────────────────
+
+function stripFences(raw: string, fixes: RepairFix[]): string {
+  const text = raw.trim();
+  const fenced = text.match(/```[ \t]*(?:mermaid)?[ \t]*\n([\s\S]*?)```/i);
+  if (fenced) {
+    const prose = text.replace(fenced[0], '').trim();
+    fixes.push({ rule: 'fence', line: 1, detail: prose ? 'extracted the fenced block from surrounding text' : 'removed markdown fences' });
+    return fenced[1].trim();
+  }
+  // An opening fence the model never closed
+  if (/^```/.test(text)) {
+    fixes.push({ rule: 'fence', line: 1, detail: 'removed markdown fences' });
+    return text.replace(/^```[a-z]*\n?/i, '').replace(/```$/, '').trim();
+  }
+  return text;
+}
+
+// Only a chart that already reads as a flowchart gets a flowchart header;
+// anything else is left for mermaid to report
+function ensureHeader(chart: string, fixes: RepairFix[]): string {
+  const lines = chart.split('\n');
+  const start = preambleLength(lines);
+  if (start >= lines.length || diagramKeyword(lines[start]) || !FLOWCHART_STATEMENT.test(lines[start])) return chart;
+  lines.splice(start, 0, 'graph TD');
+  fixes.push({ rule: 'header', line: start + 1, detail: 'added missing "graph TD" header' });
+  return lines.join('\n');
+}
+
+// ─── Line helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * Apply `fn` to the parts of a line that are flowchart syntax, leaving label
+ * text — quoted strings, `|edge labels|` and anything inside a node shape —
+ * untouched.
+ */
+function mapCode(line: string, fn: (code: string) => string): string {
+  let out = '';
+  let code = '';
+  let depth = 0;
+  let quote = false;
+  let pipe = false;
+  const flush = () => { out += code && fn(code); code = ''; };
+
+  for (const ch of line) {
+    if (quote) { out += ch; if (ch === '"') quote = false; continue; }
+    if (ch === '"') { if (!depth && !pipe) flush(); quote = true; out += ch; continue; }
+    if (depth === 0 && pipe) { out += ch; if (ch === '|') pipe = false; continue; }
+    if (depth === 0 && ch === '|') { flush(); pipe = true; out += ch; continue; }
+    if ('[({'.includes(ch)) { if (!depth) flush(); depth++; out += ch; continue; }
+    if (depth > 0) { out += ch; if ('])}'.includes(ch)) depth--; continue; }
+    code += ch;
+  }
+  flush();
+  return out;
+}
+
+// Statements whose syntax isn't `node --> node`; label passes leave them be
+const isDirectiveLine = (line: string) =>
+  /^\s*(%%|classDef\b|class\b|style\b|linkStyle\b|click\b|direction\b|graph\b|flowchart\b|subgraph\b)/.test(line);
+
+// Characters that end an unquoted label early
+const NEEDS_QUOTES = /[()[\]{}|"]/;
+
+/** Quote a label if it needs it; quotes inside become `#quot;`. */
+function quoteLabel(content: string): string {
+  const trimmed = content.trim();
+  if (!trimmed) return content;
+  if (trimmed.length > 1 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    const inner = trimmed.slice(1, -1);
+    return inner.includes('"') ? '"' + inner.replace(/"/g, '#quot;') + '"' : content;
+  }
+  // Parallelogram and trapezoid shapes: [/text/], [\text\], [/text\], [\text/]
+  if (/^[/\\].*[/\\]$/.test(trimmed)) return content;
+  if (!NEEDS_QUOTES.test(trimmed)) return content;
+  return '"' + trimmed.replace(/"/g, '#quot;') + '"';
+}
+
+// ─── Line passes ──────────────────────────────────────────────────────────────
+
+type LinePass = (line: string, note: (detail: string) => void) => string;
+
+const stripInlineComment: LinePass = (line, note) => {
+  if (/^\s*%%/.test(line)) return line;
+  let inQuote = false;
+  for (let i = 0; i < line.length - 1; i++) {
+    if (line[i] === '"') inQuote = !inQuote;
+    if (!inQuote && line[i] === '%' && line[i + 1] === '%') {
+      note('removed trailing %% comment');
+      return line.slice(0, i).replace(/\s+$/, '');
+    }
+  }
+  return line;
+};
+
+const fixSemicolons: LinePass = (line, note) =>
+  mapCode(line, (code) => {
+    const fixed = code
+      .replace(/;{2,}/g, ';')
+      .replace(/(-->|---|==>|-\.->|~~~)(\s*);/g, '$1$2');
+    if (fixed !== code) note('removed stray semicolons');
+    return fixed;
+  });
+
+const ARROW_TYPOS: [RegExp, string, string][] = [
+  [/\s*(?:→|⟶|⇒)\s*/g, ' --> ', '→ → -->'],
+  [/--&gt;/g, '-->', '--&gt; → -->'],
+  [/--\s+>/g, '-->', '-- > → -->'],
+  [/<->/g, '<-->', '<-> → <-->'],
+  [/(^|[^=<])=>/g, '$1==>', '=> → ==>'],
+  [/(^|[^-.=<>])->(?!>)/g, '$1-->', '-> → -->'],
+];
+
+const fixArrows: LinePass = (line, note) => {
+  // `A <-- B` is only valid as half of `<-->`; flip simple one-way links
+  const reversed = line.match(/^(\s*)([\w-]+)\s*<--(?!>)\s*([\w-]+)\s*;?\s*$/);
+  if (reversed) {
+    note(`${reversed[2]} <-- ${reversed[3]} → ${reversed[3]} --> ${reversed[2]}`);
+    return `${reversed[1]}${reversed[3]} --> ${reversed[2]}`;
+  }
+  return mapCode(line, (code) =>
+    ARROW_TYPOS.reduce((text, [pattern, replacement, detail]) => {
+      const fixed = text.replace(pattern, replacement);
+      if (fixed !== text) note(detail);
+      return fixed;
+    }, code),
+  );
+};
+
+const renameReservedIds: LinePass = (line, note) => {
+  // A bare `end` closes a subgraph
+  if (/^\s*end\s*;?\s*$/.test(line) || isDirectiveLine(line)) return line;
+  return mapCode(line, (code) => {
+    const fixed = code.replace(/\bend\b/g, 'End');
+    if (fixed !== code) note('renamed node "end" → "End" (reserved word)');
+    return fixed;
+  });
+};
+
+const OPENERS: [string, string][] = [
+  ['(((', ')))'], ['((', '))'], ['([', '])'], ['[[', ']]'], ['[(', ')]'], ['{{', '}}'], ['[', ']'], ['(', ')'], ['{', '}'],
+];
+
+// What may follow a node shape: end of line, space, `;`, `&`, `:::class` or a link
+const AFTER_SHAPE = /^(?:$|\s|;|&|:::|--|-\.|==|~~~|<-)/;
+
+function findCloser(line: string, from: number, closer: string): number {
+  // An already-quoted label may contain the closer
+  if (line[from] === '"') {
+    const endQuote = line.indexOf('"', from + 1);
+    if (endQuote > 0 && line.startsWith(closer, endQuote + 1)) return endQuote + 1;
+  }
+  for (let i = line.indexOf(closer, from); i >= 0; i = line.indexOf(closer, i + 1)) {
+    if (AFTER_SHAPE.test(line.slice(i + closer.length))) return i;
+  }
+  return -1;
+}
+
+const quoteNodeLabels: LinePass = (line, note) => {
+  if (isDirectiveLine(line)) return line;
+  let out = '';
+  let i = 0;
+  while (i < line.length) {
+    const ch = line[i];
+    // Skip edge labels and quoted strings whole
+    if (ch === '|' || ch === '"') {
+      const close = line.indexOf(ch, i + 1);
+      const end = close < 0 ? line.length : close + 1;
+      out += line.slice(i, end);
+      i = end;
+      continue;
+    }
+    const node = /^(\w+)(\(\(\(|\(\(|\(\[|\[\[|\[\(|\{\{|\[|\(|\{)/.exec(line.slice(i));
+    if (node && (i === 0 || !/\w/.test(line[i - 1]))) {
+      const [opener, closer] = OPENERS.find(([o]) => o === node[2])!;
+      const start = i + node[0].length;
+      const close = findCloser(line, start, closer);
+      if (close >= 0) {
+        const content = line.slice(start, close);
+        const quoted = quoteLabel(content);
+        if (quoted !== content) note(`quoted label of ${node[1]}: ${content.trim()}`);
+        out += node[1] + opener + quoted + closer;
+        i = close + closer.length;
+        continue;
+      }
+    }
+    out += ch;
+    i++;
+  }
+  return out;
+};
+
+const quoteEdgeLabels: LinePass = (line, note) => {
+  if (isDirectiveLine(line)) return line;
+  return line.replace(/(--+>?|==+>?|-\.+->?)\|([^|]*)\|/g, (match, arrow: string, content: string) => {
+    const quoted = quoteLabel(content);
+    if (quoted === content) return match;
+    note(`quoted edge label: ${content.trim()}`);
+    return `${arrow}|${quoted}|`;
+  });
+};
+
+const quoteSubgraphTitle: LinePass = (line, note) => {
+  const m = line.match(/^(\s*subgraph\s+)(.+?)\s*$/);
+  if (!m) return line;
+  const [, prefix, rest] = m;
+  // subgraph id [Title]
+  const titled = rest.match(/^(\w+)\s*\[(.*)\]$/);
+  if (titled) {
+    const quoted = quoteLabel(titled[2]);
+    if (quoted === titled[2]) return line;
+    note(`quoted subgraph title: ${titled[2].trim()}`);
+    return `${prefix}${titled[1]} [${quoted}]`;
+  }
+  const quoted = quoteLabel(rest);
+  if (quoted === rest) return line;
+  note(`quoted subgraph title: ${rest}`);
+  return prefix + quoted;
+};
+
+// Order matters: comments and semicolons go before arrows are read, and
+// labels are quoted last so earlier passes see them in their original form
+const LINE_PASSES: [RepairRule, LinePass][] = [
+  ['comment', stripInlineComment],
+  ['semicolon', fixSemicolons],
+  ['arrow', fixArrows],
+  ['reserved-id', renameReservedIds],
+  ['edge-label', quoteEdgeLabels],
+  ['label', quoteNodeLabels],
+  ['label', quoteSubgraphTitle],
+];
+
+/** Run every repair pass over a chart and report what each one changed. */
+export function repairChart(raw: string): RepairResult {
+  const fixes: RepairFix[] = [];
+  const chart = ensureHeader(stripFences(raw, fixes), fixes);
+  const lines = chart.split('\n');
+  const header = preambleLength(lines);
+  if (!/^(graph|flowchart|flowchart-elk)$/.test(diagramKeyword(lines[header] ?? '') ?? '')) return { chart, fixes };
+
+  for (const [rule, pass] of LINE_PASSES) {
+    // Frontmatter and directives are left as written, and the header line
+    // is never rewritten except for its semicolons
+    lines.forEach((line, i) => {
+      if (i < header || (i === header && rule !== 'semicolon')) return;
+      lines[i] = pass(line, (detail) => fixes.push({ rule, line: i + 1, detail }));
+    });
+  }
+  fixes.sort((a, b) => a.line - b.line);
+  return { chart: lines.join('\n'), fixes };
+}
+
+// ─── Diagnostics ──────────────────────────────────────────────────────────────
+
+export interface ParseDiagnostic {
+  /** 1-based line mermaid stopped at, when it says. */
+  line: number | null;
+  message: string;
+}
+
+// Mermaid's lexer token names, as the characters a user would recognise
+const TOKEN_TEXT: Record<string, string> = {
+  PS: '(', PE: ')', SQS: '[', SQE: ']', DIAMOND_START: '{', DIAMOND_STOP: '}', PIPE: '|', STR: '"',
+  SEMI: ';', TAGSTART: '<', TAGEND: '>', AMP: '&', COLON: ':', end: 'end', GRAPH: 'graph',
+};
+
+/** Line and a short reason from a mermaid parse/lexical error. */
+export function describeParseError(error: unknown): ParseDiagnostic {
+  const text = error instanceof Error ? error.message : String(error ?? '');
+  const lineMatch = text.match(/on line (\d+)/i);
+  const line = lineMatch ? Number(lineMatch[1]) : null;
+  const got = text.match(/got '([^']+)'/);
+  let message: string;
+  if (got) message = `unexpected ${TOKEN_TEXT[got[1]] ? `"${TOKEN_TEXT[got[1]]}"` : got[1]}`;
+  else if (/lexical error/i.test(text)) message = 'unrecognised text';
+  else message = text.split('\n')[0] || 'could not parse the diagram';
+  return { line, message };
+}
@@ -0,0 +1,129 @@
+import type { Mermaid, MermaidConfig } from 'mermaid';
+import { repairChart } from './mermaid-repair';
+import { sanitizeSvg } from './svg-sanitize';
+
+// ─── Mermaid rendering ────────────────────────────────────────────────────────
+//
+// One path for every diagram on the site: the chart is repaired, mermaid is
+// loaded on first use, and renders are serialised so each runs with its own
+// theme — `initialize` is global, so two diagrams rendering at once with
+// different presets would otherwise pick up each other's colours. Charts
+// render in strict mode unless the caller vouches for where they came from.
+
+export type MermaidTheme = 'report' | 'index';
+
+interface ThemePreset {
+  /** Page colour behind the diagram; also painted into image exports. */
+  background: string;
+  config: MermaidConfig;
+}
+
+export const MERMAID_THEMES: Record<MermaidTheme, ThemePreset> = {
+  // Green-on-black, used by the analysis report
+  report: {
+    background: '#0d1117',
+    config: {
+      theme: 'dark',
+      themeVariables: {
+        primaryColor: '#0d1117',
+        primaryTextColor: '#e0e0e0',
+        primaryBorderColor: '#00ff8844',
+        lineColor: '#00ff88',
+        secondaryColor: '#0d1117',
+        tertiaryColor: '#161b22',
+        edgeLabelBackground: '#0d1117',
+        nodeTextColor: '#e0e0e0',
+        mainBkg: '#0d1117',
+        nodeBorder: '#00ff8844',
+        clusterBkg: '#161b22',
+        titleColor: '#00ff88',
+        fontFamily: 'JetBrains Mono, monospace',
+        fontSize: '14px',
+      },
+      flowchart: { curve: 'basis' },
+    },
+  },
+  // Violet and blue, matching the landing page's task runner
+  index: {
+    background: '#020B18',
+    config: {
+      theme: 'dark',
+      themeVariables: { darkMode: true, background: '#020B18', primaryColor: '#7E3FF2', primaryTextColor: '#E8F4FF', lineColor: '#88B5FC' },
+    },
+  },
+};
+
+/**
+ * Model output → something mermaid will parse. The one cleanup path for every
+ * diagram; see `repairChart` for the passes and what they report.
+ */
+export const sanitizeChart = (raw: string): string => repairChart(raw).chart;
+
+// Statements that let a chart reconfigure mermaid or attach behaviour:
+// frontmatter and %%{init}%% config, and click/link callbacks
+const UNTRUSTED_LINE = /^\s*(%%\{|click\s|callback\s|links?\s+[^\s=>-]+\s*[:"])/;
+
+/**
+ * Neutralise chart statements that strict mode shouldn't have to trust
+ * mermaid to ignore. Removed lines become `%%` comments so line numbers in
+ * parse errors still match the source shown to the user.
+ */
+export function hardenChart(chart: string): string {
+  const lines = chart.split('\n');
+  const start = lines.findIndex((l) => l.trim());
+  if (start >= 0 && lines[start].trim() === '---') {
+    const end = lines.findIndex((l, i) => i > start && l.trim() === '---');
+    if (end > start) for (let i = start; i <= end; i++) lines[i] = '%%';
+  }
+  return lines.map((line) => (UNTRUSTED_LINE.test(line) ? '%%' : line)).join('\n');
+}
+
+let loading: Promise<Mermaid> | null = null;
+
+/** Mermaid is ~1 MB; load it the first time a diagram is shown. */
+export function loadMermaid(): Promise<Mermaid> {
+  if (!loading) {
+    loading = import('mermaid').then((m) => m.default);
+    // A failed chunk load (offline, a deploy swapped it out) is retried next time
+    loading.catch(() => { loading = null; });
+  }
+  return loading;
+}
+
+let idCounter = 0;
+
+/** Page-unique element id for the next render. */
+export const nextDiagramId = () => 'ps-mermaid-' + ++idCounter;
+
+// Untrusted charts: mermaid's own strict mode, and plain SVG text labels so
+// no label reaches the page as HTML
+const STRICT: MermaidConfig = { securityLevel: 'strict', htmlLabels: false };
+// The user's own live run: HTML labels (line breaks, bold) and click links
+const LOOSE: MermaidConfig = { securityLevel: 'loose', htmlLabels: true };
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Render an already-sanitised chart with the given theme, as DOM ready to
+ * append. Charts are untrusted unless the caller says otherwise: hardened
+ * before rendering. Either way the SVG is sanitised after, a trusted one
+ * keeping its HTML labels and links.
+ */
+export function renderMermaid(chart: string, theme: MermaidTheme, { trusted = false } = {}): Promise<DocumentFragment> {
+  const render = queue.then(async () => {
+    const mermaid = await loadMermaid();
+    const { config } = MERMAID_THEMES[theme];
+    const security = trusted ? LOOSE : STRICT;
+    mermaid.initialize({
+      startOnLoad: false,
+      ...config,
+      ...security,
+      flowchart: { ...config.flowchart, htmlLabels: security.htmlLabels },
+    });
+    const { svg } = await mermaid.render(nextDiagramId(), trusted ? chart : hardenChart(chart));
+    return sanitizeSvg(svg, { loose: trusted });
+  });
+  // A failed render must not block the ones queued behind it
+  queue = render.catch(() => undefined);
+  return render;
+}
@@ -0,0 +1,347 @@
+import { mirrorNodeUrl, type HederaNetwork } from './hedera-network';
+import { TINYBARS_PER_HBAR } from './wallet';
+
+// ─── Mirror-node payment verification ─────────────────────────────────────────
+//
+// The backend reports a txId for every agent payment and refund. Rather than
+// take that on trust, the UI looks each one up on the Hedera mirror node and
+// checks it moved the expected amount between the expected accounts, after
+// the run started. The client is pluggable so tests can point it at a local
+// fixture server instead of the public mirror node.
+
+export interface MirrorTransfer {
+  account: string;
+  /** Signed tinybars — negative for the payer. */
+  amount: number;
+}
+
+export interface MirrorTransaction {
+  transactionId: string;
+  /** SUCCESS, or the Hedera status code the transaction failed with. */
+  result: string;
+  /** Seconds.nanoseconds since the epoch, as the mirror node reports it. */
+  consensusTimestamp: string;
+  transfers: MirrorTransfer[];
+}
+
+export interface TopicMessage {
+  sequenceNumber: number;
+  consensusTimestamp: string;
+  /** Base64, as stored on the topic. */
+  message: string;
+  /** Base64 running hash of the topic after this message. */
+  runningHash: string;
+  runningHashVersion: number;
+  payerAccountId: string;
+}
+
+export interface MirrorNodeClient {
+  /**
+   * Resolves null while the transaction is not (yet) known to the mirror node.
+   * Looked up on `network`'s mirror node, or the selected network's.
+   */
+  getTransaction(txId: string, network?: HederaNetwork): Promise<MirrorTransaction | null>;
+  /** Every message on an HCS topic, oldest first. */
+  getTopicMessages(topicId: string): Promise<TopicMessage[]>;
+}
+
+const MAX_TOPIC_PAGES = 10;
+
+// SDK form 0.0.123@1700000000.000000001 → mirror-node form 0.0.123-1700000000-000000001
+export const toMirrorTxId = (txId: string) => txId.replace('@', '-').replace(/\.(\d+)$/, '-$1');
+
+/** REST client for a mirror node; defaults to the one for the given, else the selected, network. */
+export function createMirrorNodeClient(
+  baseUrl: (network?: HederaNetwork) => string = (network) => mirrorNodeUrl(network),
+): MirrorNodeClient {
+  const getJson = async (path: string, network?: HederaNetwork) => {
+    const res = await fetch(baseUrl(network) + path);
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Mirror node returned ${res.status}.`);
+    return res.json();
+  };
+
+  return {
+    async getTransaction(txId, network) {
+      const body = await getJson(`/api/v1/transactions/${encodeURIComponent(toMirrorTxId(txId))}`, network);
+      // Child records (nonce > 0) share the payer's transaction id — the payment is the parent
+      const list: Array<Record<string, unknown>> = Array.isArray(body?.transactions) ? body.transactions : [];
+      const tx = list.find((t) => !t.nonce) ?? list[0];
+      if (!tx) return null;
+      return {
+        transactionId: String(tx.transaction_id ?? ''),
+        result: String(tx.result ?? ''),
+        consensusTimestamp: String(tx.consensus_timestamp ?? ''),
+        transfers: Array.isArray(tx.transfers)
+          ? tx.transfers.map((t: { account?: unknown; amount?: unknown }) => ({ account: String(t.account), amount: Number(t.amount) }))
+          : [],
+      };
+    },
+
+    async getTopicMessages(topicId) {
+      const messages: TopicMessage[] = [];
+      let next: string | null = `/api/v1/topics/${encodeURIComponent(topicId)}/messages?order=asc&limit=100`;
+      // A run logs a few dozen steps; the page cap only guards against a runaway topic
+      for (let page = 0; next && page < MAX_TOPIC_PAGES; page++) {
+        const body = await getJson(next);
+        if (!body) break;
+        for (const m of Array.isArray(body.messages) ? body.messages : []) {
+          messages.push({
+            sequenceNumber: Number(m.sequence_number),
+            consensusTimestamp: String(m.consensus_timestamp ?? ''),
+            message: String(m.message ?? ''),
+            runningHash: String(m.running_hash ?? ''),
+            runningHashVersion: Number(m.running_hash_version ?? 0),
+            payerAccountId: String(m.payer_account_id ?? ''),
+          });
+        }
+        next = typeof body.links?.next === 'string' ? body.links.next : null;
+      }
+      return messages;
+    },
+  };
+}
+
+let client: MirrorNodeClient = createMirrorNodeClient();
+
+export const getMirrorNodeClient = () => client;
+
+/** Swap the client used for verification — tests use a fixture server. */
+export function setMirrorNodeClient(next: MirrorNodeClient | null): void {
+  client = next ?? createMirrorNodeClient();
+}
+
+// ─── Verification ─────────────────────────────────────────────────────────────
+
+export interface ExpectedPayment {
+  txId: string;
+  /** HBAR the payee should have received. */
+  amount: number;
+  /** Account expected to be debited, when known. */
+  payer?: string;
+  /** Account expected to be credited, when known. */
+  payee?: string;
+  /**
+   * ISO time the run started, by the browser's clock — a payment settled
+   * before it can't belong to the run. Allowed NOT_BEFORE_SKEW_MS of slack
+   * for a clock that runs fast.
+   */
+  notBefore?: string;
+}
+
+export type VerificationStatus = 'verified' | 'pending' | 'mismatch';
+
+export interface PaymentVerification {
+  status: VerificationStatus;
+  /** What didn't match, or why the check is still pending. */
+  problems: string[];
+  /** ISO consensus time once the mirror node has the transaction. */
+  consensusAt?: string;
+}
+
+/** How far ahead of consensus time the browser's clock may be. */
+export const NOT_BEFORE_SKEW_MS = 5 * 60_000;
+
+const toTinybars = (hbar: number) => Math.round(hbar * TINYBARS_PER_HBAR);
+const formatHbar = (tinybars: number) => `${(tinybars / TINYBARS_PER_HBAR).toFixed(8).replace(/\.?0+$/, '')} ℏ`;
+
+export const consensusToIso = (timestamp: string) => {
+  const seconds = Number(timestamp.split('.')[0]);
+  return Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000).toISOString() : undefined;
+};
+
+/** Compare what the mirror node recorded against what the backend claimed. */
+export function checkPayment(expected: ExpectedPayment, tx: MirrorTransaction | null): PaymentVerification {
+  if (!tx) return { status: 'pending', problems: ['Not on the mirror node yet.'] };
+
+  const problems: string[] = [];
+  const consensusAt = consensusToIso(tx.consensusTimestamp);
+  const want = toTinybars(expected.amount);
+  const credits = tx.transfers.filter((t) => t.amount > 0);
+
+  if (tx.result !== 'SUCCESS') problems.push(`Transaction failed: ${tx.result || 'unknown result'}.`);
+
+  if (expected.payee) {
+    const got = tx.transfers.filter((t) => t.account === expected.payee).reduce((sum, t) => sum + t.amount, 0);
+    if (got !== want) problems.push(`${expected.payee} received ${formatHbar(got)}, expected ${formatHbar(want)}.`);
+  } else if (!credits.some((t) => t.amount === want)) {
+    problems.push(`No account received ${formatHbar(want)}.`);
+  }
+
+  if (expected.payer && !tx.transfers.some((t) => t.account === expected.payer && t.amount < 0)) {
+    problems.push(`${expected.payer} was not debited.`);
+  }
+
+  if (!consensusAt) problems.push('No consensus timestamp recorded.');
+  else if (expected.notBefore && Date.parse(consensusAt) < Date.parse(expected.notBefore) - NOT_BEFORE_SKEW_MS) {
+    problems.push(`Settled at ${consensusAt}, before the run started.`);
+  }
+
+  return { status: problems.length ? 'mismatch' : 'verified', problems, consensusAt };
+}
+
+/**
+ * Look a payment up on the mirror node of the network it was made on — the
+ * selected one unless given — and check it. Lookup failures leave it pending.
+ */
+export async function verifyPayment(
+  expected: ExpectedPayment,
+  mirror: MirrorNodeClient = client,
+  network?: HederaNetwork,
+): Promise<PaymentVerification> {
+  try {
+    return checkPayment(expected, await mirror.getTransaction(expected.txId, network));
+  } catch (e) {
+    return { status: 'pending', problems: ['Mirror node unavailable: ' + (e instanceof Error ? e.message : String(e))] };
+  }
+}
+
+// ─── HCS audit trail ──────────────────────────────────────────────────────────
+
+export interface AuditEntry extends TopicMessage {
+  /** Decoded message body — JSON when the backend logged a structured step. */
+  text: string;
+  data: Record<string, unknown> | null;
+  consensusAt?: string;
+  /** Why this entry breaks the chain, if it does. */
+  problem?: string;
+}
+
+export interface AuditTrail {
+  entries: AuditEntry[];
+  /**
+   * True when sequence numbers run 1..n without gaps in consensus order and
+   * every running hash that could be recomputed matched.
+   */
+  intact: boolean;
+  /** Entries whose running hash was recomputed from the one before it. */
+  hashesChecked: number;
+}
+
+const decodeBase64 = (value: string) => {
+  try {
+    return new TextDecoder().decode(Uint8Array.from(atob(value), (c) => c.charCodeAt(0)));
+  } catch {
+    return '';
+  }
+};
+
+const base64ToBytes = (value: string): Uint8Array | null => {
+  try {
+    return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+/** base64 → hex, for showing running hashes the way explorers do. */
+export const base64ToHex = (value: string) => {
+  try {
+    return Array.from(atob(value), (c) => c.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+  } catch {
+    return '';
+  }
+};
+
+// ─── HCS running hash (version 3) ─────────────────────────────────────────────
+//
+// Each message's running hash is SHA-384 over the previous running hash, the
+// payer, topic, consensus time, sequence number and SHA-384 of the message.
+// Consensus nodes write those fields through a Java ObjectOutputStream, so its
+// framing is part of what gets hashed and has to be reproduced byte for byte.
+
+const RUNNING_HASH_VERSION = 3;
+const SHA384_BYTES = 48;
+// Stream magic and version, then TC_BLOCKDATA with the length of the fields
+const OOS_HEADER = [0xac, 0xed, 0x00, 0x05, 0x77];
+// writeObject(byte[]): TC_ARRAY, TC_CLASSDESC "[B" with its serialVersionUID,
+// SC_SERIALIZABLE, no fields, TC_ENDBLOCKDATA, TC_NULL superclass
+const OOS_BYTE_ARRAY = [0x75, 0x72, 0x00, 0x02, 0x5b, 0x42, 0xac, 0xf3, 0x17, 0xf8, 0x06, 0x08, 0x54, 0xe0, 0x02, 0x00, 0x00, 0x78, 0x70];
+
+const sha384 = async (bytes: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-384', bytes));
+
+const entityParts = (id: string): bigint[] | null =>
+  /^\d+\.\d+\.\d+$/.test(id) ? id.split('.').map(BigInt) : null;
+
+/**
+ * The running hash a topic should have after `message`, given the hash
+ * before it (48 zero bytes before the first message). Null when the message
+ * lacks what the hash covers.
+ */
+export async function nextRunningHash(previous: Uint8Array, message: TopicMessage, topicId: string): Promise<Uint8Array | null> {
+  const payer = entityParts(message.payerAccountId);
+  const topic = entityParts(topicId);
+  const body = base64ToBytes(message.message);
+  const [seconds, nanos = '0'] = message.consensusTimestamp.split('.');
+  if (!payer || !topic || !body || previous.length !== SHA384_BYTES || !/^\d+$/.test(seconds) || !/^\d+$/.test(nanos)) return null;
+
+  const fields = new DataView(new ArrayBuffer(SHA384_BYTES + 9 * 8 + 4));
+  new Uint8Array(fields.buffer).set(previous);
+  let at = SHA384_BYTES;
+  const long = (v: bigint) => { fields.setBigInt64(at, v); at += 8; };
+  long(BigInt(RUNNING_HASH_VERSION));
+  payer.forEach(long);
+  topic.forEach(long);
+  long(BigInt(seconds));
+  fields.setInt32(at, Number(nanos.padEnd(9, '0').slice(0, 9)));
+  at += 4;
+  long(BigInt(message.sequenceNumber));
+
+  const length = new DataView(new ArrayBuffer(4));
+  length.setInt32(0, SHA384_BYTES);
+  const stream = new Uint8Array([
+    ...OOS_HEADER, fields.byteLength, ...new Uint8Array(fields.buffer),
+    ...OOS_BYTE_ARRAY, ...new Uint8Array(length.buffer), ...(await sha384(body)),
+  ]);
+  return sha384(stream);
+}
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+/**
+ * Decode a topic's messages and check the chain: every sequence number from
+ * the first on must be present, consensus order must match it, and each
+ * running hash must follow from the one before it. A gap means messages are
+ * missing from what the mirror node returned; a hash mismatch means a message
+ * isn't what the network recorded.
+ */
+export async function buildAuditTrail(messages: TopicMessage[], topicId: string): Promise<AuditTrail> {
+  let intact = true;
+  let hashesChecked = 0;
+  const entries = await Promise.all(messages.map(async (m, i): Promise<AuditEntry> => {
+    const text = decodeBase64(m.message);
+    let data: Record<string, unknown> | null = null;
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) data = parsed;
+    } catch {
+      // Plain-text log line
+    }
+
+    const prev = messages[i - 1];
+    const expectedSeq = prev ? prev.sequenceNumber + 1 : 1;
+    let problem: string | undefined;
+    if (m.sequenceNumber !== expectedSeq) problem = `Expected sequence #${expectedSeq}, found #${m.sequenceNumber}.`;
+    else if (prev && m.consensusTimestamp <= prev.consensusTimestamp) problem = 'Out of consensus order.';
+    else if (!m.runningHash) problem = 'No running hash recorded.';
+    else if (m.runningHashVersion === RUNNING_HASH_VERSION) {
+      // The first message chains from zeros; later ones from their predecessor
+      const before = prev ? base64ToBytes(prev.runningHash) : m.sequenceNumber === 1 ? new Uint8Array(SHA384_BYTES) : null;
+      const expected = before && (await nextRunningHash(before, m, topicId));
+      const recorded = base64ToBytes(m.runningHash);
+      if (expected && recorded) {
+        hashesChecked++;
+        if (!sameBytes(expected, recorded)) problem = 'Running hash does not follow from the previous message.';
+      }
+    }
+    if (problem) intact = false;
+
+    return { ...m, text, data, consensusAt: consensusToIso(m.consensusTimestamp), problem };
+  }));
+  return { entries, intact, hashesChecked };
+}
+
+/** Fetch and check the audit trail of one run's topic. */
+export async function fetchAuditTrail(topicId: string, mirror: MirrorNodeClient = client): Promise<AuditTrail> {
+  return buildAuditTrail(await mirror.getTopicMessages(topicId), topicId);
+}
@@ -0,0 +1,133 @@
+import { downloadText, fileStem, toCsv } from './download';
+import type { HistoryEntry } from './history-store';
+
+// ─── Run receipts and the spend ledger ────────────────────────────────────────
+//
+// A receipt is the financial record of one analysis run, rebuilt from its
+// history entry. The ledger flattens receipts into one row per transfer so
+// PayStream spend can be reconciled against the wallet's own statement:
+// "Wallet Δ" is what the funding account actually saw move.
+
+export interface ReceiptPayment {
+  agent: string;
+  amount: number;
+  txId: string;
+  paidAt?: string;
+}
+
+export interface Receipt {
+  runId: string;
+  repoName: string;
+  repoUrl: string;
+  network?: string;
+  createdAt: string;
+  budget: number;
+  /** Escrow transfer from the user's wallet; null when the server fronted the run. */
+  funding: { txId: string; accountId: string; amount: number } | null;
+  payments: ReceiptPayment[];
+  refund: { amount: number; txId: string; at?: string } | null;
+  /** Total paid out to agents. */
+  spent: number;
+}
+
+export function receiptFromRun(run: HistoryEntry): Receipt {
+  const payments = run.agents
+    .filter((a) => a.txId)
+    .map((a) => ({ agent: a.name, amount: a.payment, txId: a.txId, paidAt: a.paidAt }));
+  return {
+    runId: run.id,
+    repoName: run.repoMeta?.repoName || run.repoUrl,
+    repoUrl: run.repoUrl,
+    network: run.network,
+    createdAt: run.createdAt,
+    budget: run.budget,
+    funding: run.funding ?? null,
+    payments,
+    refund: run.refund,
+    spent: payments.reduce((sum, p) => sum + p.amount, 0),
+  };
+}
+
+// ─── Ledger ───────────────────────────────────────────────────────────────────
+
+export type LedgerEntryType = 'escrow' | 'agent payment' | 'refund';
+
+export interface LedgerRow {
+  date: string;
+  runId: string;
+  repo: string;
+  network: string;
+  type: LedgerEntryType;
+  /** Agent name, or the account on the other side of an escrow/refund. */
+  counterparty: string;
+  amount: number;
+  /** Change to the funding wallet's balance; 0 for moves inside escrow. */
+  walletDelta: number;
+  txId: string;
+}
+
+/** One row per transfer, oldest run first and in the order they happened. */
+export function ledgerRows(receipts: Receipt[]): LedgerRow[] {
+  const rows: LedgerRow[] = [];
+  const byDate = [...receipts].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const r of byDate) {
+    const base = { runId: r.runId, repo: r.repoName, network: r.network ?? '' };
+    if (r.funding) {
+      rows.push({ ...base, date: r.createdAt, type: 'escrow', counterparty: 'PayStream escrow', amount: r.funding.amount, walletDelta: -r.funding.amount, txId: r.funding.txId });
+    }
+    for (const p of r.payments) {
+      rows.push({ ...base, date: p.paidAt ?? r.createdAt, type: 'agent payment', counterparty: p.agent, amount: p.amount, walletDelta: 0, txId: p.txId });
+    }
+    if (r.refund && (r.refund.amount || r.refund.txId)) {
+      rows.push({
+        ...base,
+        date: r.refund.at ?? r.createdAt,
+        type: 'refund',
+        counterparty: r.funding?.accountId ?? 'PayStream operator',
+        amount: r.refund.amount,
+        // Anonymous runs refund the server, not the user
+        walletDelta: r.funding ? r.refund.amount : 0,
+        txId: r.refund.txId,
+      });
+    }
+  }
+  return rows;
+}
+
+export interface LedgerTotals {
+  escrowed: number;
+  paidToAgents: number;
+  refunded: number;
+  /** Net HBAR out of the user's wallets. */
+  netWalletSpend: number;
+}
+
+export const ledgerTotals = (rows: LedgerRow[]): LedgerTotals => {
+  const sum = (type: LedgerEntryType) => rows.filter((r) => r.type === type).reduce((s, r) => s + r.amount, 0);
+  return {
+    escrowed: sum('escrow'),
+    paidToAgents: sum('agent payment'),
+    refunded: rows.filter((r) => r.type === 'refund' && r.walletDelta > 0).reduce((s, r) => s + r.amount, 0),
+    netWalletSpend: -rows.reduce((s, r) => s + r.walletDelta, 0),
+  };
+};
+
+const hbar = (n: number) => n.toFixed(8).replace(/\.?0+$/, '') || '0';
+
+export const ledgerToCsv = (rows: LedgerRow[]) =>
+  toCsv([
+    ['Date', 'Run', 'Repository', 'Network', 'Type', 'Counterparty', 'Amount (HBAR)', 'Wallet Δ (HBAR)', 'Transaction ID'],
+    ...rows.map((r) => [r.date, r.runId, r.repo, r.network, r.type, r.counterparty, hbar(r.amount), hbar(r.walletDelta), r.txId]),
+  ]);
+
+export const ledgerToJson = (receipts: Receipt[]) =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), receipts, totals: ledgerTotals(ledgerRows(receipts)) }, null, 2);
+
+export function downloadLedger(receipts: Receipt[], format: 'csv' | 'json', stem = 'paystream-ledger'): void {
+  if (format === 'csv') downloadText(ledgerToCsv(ledgerRows(receipts)), stem + '.csv', 'text/csv');
+  else downloadText(ledgerToJson(receipts), stem + '.json', 'application/json');
+}
+
+/** Receipt for a single run, named after its repo and date. */
+export const downloadReceipt = (receipt: Receipt, format: 'csv' | 'json') =>
+  downloadLedger([receipt], format, `${fileStem(receipt.repoName)}-receipt-${receipt.createdAt.slice(0, 10)}`);
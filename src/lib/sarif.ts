@@ -0,0 +1,167 @@
+import type { RedFlag } from './analysis-types';
+import { downloadText, fileStem } from './download';
+
+// ─── SARIF 2.1.0 export of red flags ──────────────────────────────────────────
+//
+// Only the subset of the spec code-scanning tools actually read: one run, a
+// rule per distinct issue, and a result per red flag whose free-text
+// `location` names a file. GitHub rejects an upload containing any result
+// without a location, so flags that don't name one are left out and counted.
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifRegion {
+  startLine: number;
+  endLine?: number;
+  startColumn?: number;
+}
+
+export interface SarifLocation {
+  uri: string;
+  region?: SarifRegion;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations: { physicalLocation: { artifactLocation: { uri: string; uriBaseId: string }; region?: SarifRegion } }[];
+  partialFingerprints: Record<string, string>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: { driver: { name: string; informationUri: string; rules: { id: string; shortDescription: { text: string } }[] } };
+    versionControlProvenance?: { repositoryUri: string }[];
+    results: SarifResult[];
+  }[];
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVEL: Record<string, SarifLevel> = {
+  critical: 'error', high: 'error', medium: 'warning', low: 'note', info: 'note',
+};
+
+/** Map a red-flag severity onto a SARIF level; unknown severities become warnings. */
+export const sarifLevel = (severity: string): SarifLevel => SARIF_LEVEL[severity.trim().toLowerCase()] ?? 'warning';
+
+// "src/db.ts:42", "src/db.ts:42-58", "src/db.ts:42:7", "src/db.ts#L10-L20"
+const TOKEN_RE = /^(.+?)(?::(\d+)(?:[-–](\d+)|:(\d+))?|#L(\d+)(?:-L?(\d+))?)?$/;
+// "src/db.ts (line 42)", "src/db.ts lines 10-20"
+const PROSE_LINE_RE = /\blines?\s*(\d+)(?:\s*(?:-|–|to)\s*(\d+))?/i;
+
+// Extensions a bare file name needs to count as a path; with a directory in
+// front anything goes
+const SOURCE_EXTENSIONS = new Set([
+  'ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs', 'vue', 'svelte', 'astro', 'py', 'pyi', 'rb', 'go', 'rs',
+  'java', 'kt', 'kts', 'scala', 'groovy', 'gradle', 'swift', 'm', 'mm', 'c', 'h', 'cc', 'cpp', 'hpp', 'cs', 'fs',
+  'php', 'pl', 'ex', 'exs', 'erl', 'hs', 'clj', 'dart', 'lua', 'r', 'jl', 'sol', 'sql', 'sh', 'bash', 'zsh', 'ps1',
+  'html', 'htm', 'css', 'scss', 'sass', 'less', 'json', 'yml', 'yaml', 'toml', 'ini', 'cfg', 'conf', 'xml', 'env',
+  'md', 'mdx', 'proto', 'graphql', 'gql', 'tf', 'lock', 'dockerfile',
+]);
+const BARE_FILES = /^(?:Dockerfile|Makefile|Procfile|Gemfile|Rakefile|Jenkinsfile|Vagrantfile)$/;
+// Product names that happen to end in a source extension, and prose with a slash
+const NOT_FILES = /^(?:(?:node|vue|next|nuxt|nest|express|react|angular|ember|backbone|three|d3|chart|socket\.io|moment|alpine|solid|deno|p5)\.js|and\/or|i\/o|n\/a|read\/write|input\/output|client\/server)$/i;
+
+function looksLikePath(s: string): boolean {
+  if (!/^[\w@$.[\]/-]+$/.test(s) || /^\.+$/.test(s) || NOT_FILES.test(s)) return false;
+  if (s.includes('/')) return /\w/.test(s);
+  // Dotfiles (.env, .eslintrc.json) but not names like .NET
+  if (BARE_FILES.test(s) || /^\.[a-z][a-z0-9_.-]*$/.test(s)) return true;
+  const ext = s.match(/\w\.([a-z0-9]{1,10})$/i)?.[1].toLowerCase();
+  return !!ext && SOURCE_EXTENSIONS.has(ext);
+}
+
+const num = (s: string | undefined) => (s ? Number(s) : undefined);
+
+const toRegion = (start?: number, end?: number, column?: number): SarifRegion | undefined => {
+  if (!start) return undefined;
+  const region: SarifRegion = { startLine: start };
+  if (end && end >= start) region.endLine = end;
+  if (column) region.startColumn = column;
+  return region;
+};
+
+/**
+ * Pull a repo-relative file (and line range, when given) out of the model's
+ * free-text location. Returns null when nothing in it looks like a path —
+ * e.g. "Multiple files" or "Throughout the codebase".
+ */
+export function parseLocation(location: string): SarifLocation | null {
+  const tokens = location.replace(/\\/g, '/').split(/[\s,;()`'"]+/).filter(Boolean);
+
+  for (const raw of tokens) {
+    const m = TOKEN_RE.exec(raw.replace(/[.:]+$/, ''));
+    if (!m) continue;
+    const uri = m[1].replace(/^\.\//, '').replace(/^\//, '');
+    if (!looksLikePath(uri) || /^https?:/i.test(raw)) continue;
+
+    let region = toRegion(num(m[2] ?? m[5]), num(m[3] ?? m[6]), num(m[4]));
+    if (!region) {
+      const prose = PROSE_LINE_RE.exec(location);
+      if (prose) region = toRegion(num(prose[1]), num(prose[2]));
+    }
+    return region ? { uri, region } : { uri };
+  }
+  return null;
+}
+
+const norm = (s: string) => s.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const ruleIdFor = (issue: string) =>
+  'paystream/' + (norm(issue).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'red-flag');
+
+export interface SarifExport {
+  log: SarifLog;
+  /** Red flags left out because their location doesn't name a file. */
+  skipped: number;
+}
+
+/** Build a SARIF log with one result per red flag that names a file. */
+export function buildSarif(flags: RedFlag[], repoUrl?: string): SarifExport {
+  const rules = new Map<string, string>();
+  const results: SarifResult[] = [];
+
+  for (const flag of flags) {
+    const loc = parseLocation(flag.location || '');
+    if (!loc) continue;
+
+    const ruleId = ruleIdFor(flag.issue);
+    if (!rules.has(ruleId)) rules.set(ruleId, flag.issue);
+
+    results.push({
+      ruleId,
+      level: sarifLevel(flag.severity || ''),
+      message: { text: flag.suggestion ? `${flag.issue}\n\nSuggestion: ${flag.suggestion}` : flag.issue },
+      locations: [{ physicalLocation: { artifactLocation: { uri: loc.uri, uriBaseId: '%SRCROOT%' }, ...(loc.region && { region: loc.region }) } }],
+      partialFingerprints: { 'paystreamIssue/v1': norm(flag.issue) + '@' + norm(flag.location || '') },
+    });
+  }
+
+  const log: SarifLog = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'PayStream',
+          informationUri: 'https://github.com/pratyushsawant/Paystream_Frontend',
+          rules: [...rules].map(([id, issue]) => ({ id, shortDescription: { text: issue } })),
+        },
+      },
+      ...(repoUrl && { versionControlProvenance: [{ repositoryUri: repoUrl }] }),
+      results,
+    }],
+  };
+  return { log, skipped: flags.length - results.length };
+}
+
+/** Download the red flags as `<repo>.sarif`; returns how many were left out. */
+export function exportSarif(flags: RedFlag[], repoName: string, repoUrl?: string): number {
+  const { log, skipped } = buildSarif(flags, repoUrl);
+  downloadText(JSON.stringify(log, null, 2), fileStem(repoName) + '.sarif', 'application/sarif+json');
+  return skipped;
+}
@@ -0,0 +1,85 @@
+import DOMPurify from 'dompurify';
+
+// ─── SVG sanitising ───────────────────────────────────────────────────────────
+//
+// Mermaid's strict mode already encodes label text and ignores `click`, but
+// charts from someone else's report still get their SVG run through DOMPurify
+// on the way in. So does the user's own loose-mode render: its chart is model
+// output relayed by the backend, and must not run anything either. What comes back is DOM, appended as-is — never serialised
+// and re-parsed, which is where mutation-XSS slips past sanitisers.
+//
+// DOMPurify doesn't read CSS, and mermaid writes `classDef`/`style` statements
+// straight into the SVG's stylesheet, so CSS gets one extra check: anything
+// that can fetch a resource or run code is dropped, judged after CSS escapes
+// are decoded so `\75 rl(` reads as `url(`.
+
+// Functions and at-rules that load something or execute; same-document
+// url(#id) references (markers, gradients) are the one thing allowed through
+const UNSAFE_CSS = /@import|@font-face|@namespace|expression\s*\(|javascript:|behavior\s*:|-moz-binding|(?:image|image-set|cross-fade|element|paint)\s*\(|url\s*\(\s*(?!['"]?#)/i;
+
+/** CSS with comments removed and every escape sequence written out. */
+export function decodeCss(css: string): string {
+  return css
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\\([0-9a-f]{1,6})\s?/gi, (_, hex: string) => {
+      const code = parseInt(hex, 16);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '�';
+    })
+    .replace(/\\\n/g, '')
+    .replace(/\\(.)/g, '$1');
+}
+
+export const isUnsafeCss = (css: string) => UNSAFE_CSS.test(decodeCss(css));
+
+/** Stylesheet with every unsafe declaration, selector or at-rule removed. */
+export const cleanStylesheet = (css: string) =>
+  decodeCss(css).replace(/[^;{}]+/g, (part) => (UNSAFE_CSS.test(part) ? '' : part));
+
+const LINK_ATTRIBUTES = new Set(['href', 'xlink:href', 'src']);
+const WEB_LINK = /^https?:\/\//i;
+
+interface SanitizeOptions {
+  /**
+   * The user's own live run, rendered in mermaid's loose mode: keep HTML
+   * labels (foreignObject) and let `click` links point at web pages.
+   * Scripts and event handlers are still removed.
+   */
+  loose?: boolean;
+}
+
+const purifiers = new Map<boolean, ReturnType<typeof DOMPurify>>();
+
+// Private instances, so these hooks never touch other DOMPurify users
+function getPurifier(loose: boolean) {
+  const existing = purifiers.get(loose);
+  if (existing) return existing;
+  const purifier = DOMPurify(window);
+  purifier.addHook('uponSanitizeAttribute', (node, data) => {
+    if (data.attrName === 'style' && isUnsafeCss(data.attrValue)) data.keepAttr = false;
+    // Links and images may only point inside the diagram itself, or for a
+    // loose render a link may open a web page
+    if (!LINK_ATTRIBUTES.has(data.attrName)) return;
+    const value = data.attrValue.trim();
+    const webLink = loose && node.nodeName.toLowerCase() === 'a' && data.attrName !== 'src' && WEB_LINK.test(value);
+    if (!value.startsWith('#') && !webLink) data.keepAttr = false;
+  });
+  purifier.addHook('uponSanitizeElement', (node, data) => {
+    if (data.tagName === 'style' && node.textContent) node.textContent = cleanStylesheet(node.textContent);
+  });
+  purifiers.set(loose, purifier);
+  return purifier;
+}
+
+/** Mermaid SVG markup → inert DOM, ready to append. */
+export function sanitizeSvg(markup: string, { loose = false }: SanitizeOptions = {}): DocumentFragment {
+  return getPurifier(loose).sanitize(markup, {
+    USE_PROFILES: loose ? { svg: true, svgFilters: true, html: true } : { svg: true, svgFilters: true },
+    // Sequence diagram actor symbols; the hook above keeps it in-document.
+    // Strict renders set htmlLabels: false, so any foreignObject is foreign;
+    // loose ones hold their HTML labels in one.
+    ...(loose
+      ? { ADD_TAGS: ['use', 'foreignObject'], HTML_INTEGRATION_POINTS: { 'annotation-xml': true, foreignobject: true } }
+      : { ADD_TAGS: ['use'], FORBID_TAGS: ['foreignObject'] }),
+    RETURN_DOM_FRAGMENT: true,
+  });
+}
@@ -0,0 +1,121 @@
+import {
+  DAppConnector, HederaChainId, HederaJsonRpcMethod, HederaSessionEvent, type DAppSigner,
+} from '@hashgraph/hedera-wallet-connect';
+import { LedgerId, Transaction } from '@hashgraph/sdk';
+import { WalletError, fetchHbarBalance, type WalletAdapter, type WalletInfo } from './wallet';
+import { getNetwork, type HederaNetwork } from './hedera-network';
+
+// ─── Hedera WalletConnect ─────────────────────────────────────────────────────
+//
+// HashPack, Blade and Kabila all implement Hedera WalletConnect (HIP-820). A
+// single DAppConnector is shared by every adapter; each adapter prefers its own
+// browser extension when one answers the discovery ping, and falls back to the
+// WalletConnect QR modal (mobile wallets) otherwise.
+
+const CHAIN_IDS: Record<HederaNetwork, HederaChainId> = {
+  testnet:    HederaChainId.Testnet,
+  previewnet: HederaChainId.Previewnet,
+  mainnet:    HederaChainId.Mainnet,
+};
+
+let connectorPromise: Promise<DAppConnector> | null = null;
+let connectorNetwork: HederaNetwork | null = null;
+
+function getConnector(): Promise<DAppConnector> {
+  // A WalletConnect session is bound to one chain; switching networks starts over
+  const network = getNetwork();
+  if (connectorPromise && connectorNetwork === network) return connectorPromise;
+
+  const projectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID;
+  if (!projectId) {
+    return Promise.reject(new WalletError('not-configured', 'Wallet connections are not configured (VITE_WALLETCONNECT_PROJECT_ID is missing).'));
+  }
+
+  const pending = (async () => {
+    const connector = new DAppConnector(
+      {
+        name: 'PayStream',
+        description: 'AI codebase analysis paid per agent in HBAR',
+        url: window.location.origin,
+        icons: [window.location.origin + '/favicon.ico'],
+      },
+      LedgerId.fromString(network),
+      projectId,
+      Object.values(HederaJsonRpcMethod),
+      [HederaSessionEvent.ChainChanged, HederaSessionEvent.AccountsChanged],
+      [CHAIN_IDS[network]],
+      'error',
+    );
+    await connector.init({ logger: 'error' });
+    // init() logs rather than throws when the relay is unreachable
+    if (!connector.walletConnectClient) throw new WalletError('network', 'Could not reach the WalletConnect relay.');
+    return connector;
+  })();
+  connectorPromise = pending;
+  connectorNetwork = network;
+  // Let the next attempt retry instead of caching the failure
+  pending.catch(() => { if (connectorPromise === pending) connectorPromise = null; });
+  return pending;
+}
+
+const toWalletError = (e: unknown): WalletError =>
+  e instanceof WalletError ? e : new WalletError('rejected', e instanceof Error ? e.message : 'Wallet request was rejected.');
+
+export function createWalletConnectAdapter(info: WalletInfo): WalletAdapter {
+  let signer: DAppSigner | null = null;
+  // Extension metadata names vary ("HashPack", "Blade Wallet", "Kabila Wallet")
+  const matchesExtension = (name = '') => name.toLowerCase().includes(info.id);
+
+  const requireSigner = () => {
+    if (!signer) throw new WalletError('not-connected', `${info.name} is not connected.`);
+    return signer;
+  };
+
+  return {
+    id: info.id,
+    name: info.name,
+
+    async connect() {
+      const connector = await getConnector();
+      try {
+        const extension = connector.extensions.find((x) => x.available && matchesExtension(x.name));
+        const session = extension
+          ? await connector.connectExtension(extension.id)
+          : await connector.openModal(undefined, true);
+        signer = connector.signers.find((s) => s.topic === session.topic) ?? null;
+      } catch (e) {
+        throw toWalletError(e);
+      }
+      return requireSigner().getAccountId().toString();
+    },
+
+    async restore(accountId) {
+      // DAppConnector.init() rebuilds signers from WalletConnect's own storage
+      const connector = await getConnector();
+      signer = connector.signers.find((s) => s.getAccountId().toString() === accountId) ?? null;
+      return !!signer;
+    },
+
+    async disconnect() {
+      if (!signer) return;
+      const topic = signer.topic;
+      signer = null;
+      const connector = await getConnector();
+      await connector.disconnect(topic).catch(() => false);
+    },
+
+    accountId: () => signer?.getAccountId().toString() ?? null,
+
+    balance: () => fetchHbarBalance(requireSigner().getAccountId().toString()),
+
+    async signTransaction(bytes) {
+      const s = requireSigner();
+      try {
+        const signed = await s.signTransaction(Transaction.fromBytes(bytes));
+        return signed.toBytes();
+      } catch (e) {
+        throw toWalletError(e);
+      }
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import { createContext } from 'react';
+import type { WalletAdapter, WalletId } from './wallet';
+
+export type WalletStatus = 'disconnected' | 'restoring' | 'connecting' | 'connected';
+
+export interface WalletContextValue {
+  status: WalletStatus;
+  /** The connected adapter, or null for anonymous use. */
+  wallet: WalletAdapter | null;
+  walletId: WalletId | null;
+  accountId: string | null;
+  /** HBAR, or null while unknown (not connected, or the mirror node is unreachable). */
+  balance: number | null;
+  /** Wallet id currently pairing, for per-row spinners. */
+  connecting: WalletId | null;
+  error: string;
+  connect(id: WalletId): Promise<void>;
+  disconnect(): Promise<void>;
+  refreshBalance(): Promise<void>;
+}
+
+export const WalletContext = createContext<WalletContextValue | null>(null);
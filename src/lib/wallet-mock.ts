@@ -0,0 +1,44 @@
+import { WalletError, type WalletAdapter } from './wallet';
+
+export interface MockWalletOptions {
+  accountId?: string;
+  /** Starting balance in HBAR. */
+  balance?: number;
+  /** Make `connect()` reject, as if the user declined the pairing. */
+  reject?: boolean;
+}
+
+/**
+ * A wallet that always connects as the same account with a fixed balance and
+ * "signs" by returning the transaction unchanged. No extension, no network.
+ */
+export function createMockWallet({ accountId = '0.0.1001', balance = 100, reject = false }: MockWalletOptions = {}): WalletAdapter {
+  let connected: string | null = null;
+
+  return {
+    id: 'mock',
+    name: 'Mock Wallet',
+    async connect() {
+      if (reject) throw new WalletError('rejected', 'Connection rejected.');
+      connected = accountId;
+      return accountId;
+    },
+    async restore(account) {
+      if (account !== accountId) return false;
+      connected = accountId;
+      return true;
+    },
+    async disconnect() {
+      connected = null;
+    },
+    accountId: () => connected,
+    async balance() {
+      if (!connected) throw new WalletError('not-connected', 'Wallet is not connected.');
+      return balance;
+    },
+    async signTransaction(transaction) {
+      if (!connected) throw new WalletError('not-connected', 'Wallet is not connected.');
+      return transaction;
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import { getNetwork, isHederaNetwork, mirrorNodeUrl, type HederaNetwork } from './hedera-network';
+
+// ─── Wallet providers ─────────────────────────────────────────────────────────
+//
+// Every wallet sits behind the same small adapter interface so the UI never
+// cares which one is connected. HashPack, Blade and Kabila all speak Hedera
+// WalletConnect (see wallet-connect.ts); the mock adapter is deterministic and
+// needs no extension, for tests and local dev.
+
+export type WalletId = 'hashpack' | 'blade' | 'kabila' | 'mock';
+
+export interface WalletAdapter {
+  id: WalletId;
+  name: string;
+  /** Pair with the wallet and resolve to the connected account id (0.0.x). */
+  connect(): Promise<string>;
+  /**
+   * Silently resume a session from a previous page load. Resolves false when
+   * the wallet no longer holds a session for `accountId`.
+   */
+  restore(accountId: string): Promise<boolean>;
+  disconnect(): Promise<void>;
+  accountId(): string | null;
+  /** Current balance in HBAR. */
+  balance(): Promise<number>;
+  /** Sign a frozen transaction (SDK `toBytes()` form) and return the signed bytes. */
+  signTransaction(transaction: Uint8Array): Promise<Uint8Array>;
+}
+
+export type WalletErrorCode = 'not-configured' | 'rejected' | 'not-connected' | 'network';
+
+export class WalletError extends Error {
+  constructor(public code: WalletErrorCode, message: string) {
+    super(message);
+    this.name = 'WalletError';
+  }
+}
+
+export interface WalletInfo {
+  id: WalletId;
+  name: string;
+  icon: string;
+  color: string;
+  desc: string;
+}
+
+export const WALLETS: WalletInfo[] = [
+  { id: 'hashpack', name: 'HashPack',     icon: '⬡', color: '#8B5CF6', desc: 'Most popular Hedera wallet' },
+  { id: 'blade',    name: 'Blade Wallet', icon: '◆', color: '#38B2F6', desc: 'Browser extension wallet'  },
+  { id: 'kabila',   name: 'Kabila',       icon: '◉', color: '#10B981', desc: 'Mobile & web wallet'       },
+];
+
+export const MOCK_WALLET: WalletInfo = { id: 'mock', name: 'Mock Wallet', icon: '◇', color: '#94A3B8', desc: 'Deterministic dev wallet' };
+
+/** The mock wallet is only offered when explicitly enabled, or in dev builds. */
+export const mockWalletEnabled = () =>
+  import.meta.env.VITE_WALLET_MOCK === 'true' || (import.meta.env.DEV && import.meta.env.VITE_WALLET_MOCK !== 'false');
+
+export const availableWallets = (): WalletInfo[] => (mockWalletEnabled() ? [...WALLETS, MOCK_WALLET] : WALLETS);
+
+// ─── Balances ─────────────────────────────────────────────────────────────────
+
+export const TINYBARS_PER_HBAR = 100_000_000;
+
+/** HBAR balance of any account, read from the public mirror node. */
+export async function fetchHbarBalance(accountId: string): Promise<number> {
+  let res: Response;
+  try {
+    res = await fetch(`${mirrorNodeUrl()}/api/v1/balances?account.id=${encodeURIComponent(accountId)}`);
+  } catch {
+    throw new WalletError('network', 'Could not reach the Hedera mirror node.');
+  }
+  if (!res.ok) throw new WalletError('network', `Mirror node returned ${res.status}.`);
+  const body = await res.json();
+  const tinybars = body?.balances?.[0]?.balance;
+  return typeof tinybars === 'number' ? tinybars / TINYBARS_PER_HBAR : 0;
+}
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+const adapters = new Map<WalletId, WalletAdapter>();
+
+/**
+ * One adapter instance per wallet for the lifetime of the page. The
+ * WalletConnect adapters are imported on demand — the SDK is large and most
+ * visitors never connect.
+ */
+export async function getWalletAdapter(id: WalletId): Promise<WalletAdapter> {
+  const existing = adapters.get(id);
+  if (existing) return existing;
+
+  let adapter: WalletAdapter;
+  if (id === 'mock') {
+    const { createMockWallet } = await import('./wallet-mock');
+    adapter = createMockWallet();
+  } else {
+    const { createWalletConnectAdapter } = await import('./wallet-connect');
+    const info = WALLETS.find((w) => w.id === id);
+    if (!info) throw new WalletError('not-configured', `Unknown wallet "${id}".`);
+    adapter = createWalletConnectAdapter(info);
+  }
+  adapters.set(id, adapter);
+  return adapter;
+}
+
+// ─── Session persistence ──────────────────────────────────────────────────────
+//
+// Only which wallet and which account — the pairing itself lives in the
+// wallet's own storage (WalletConnect keeps it in IndexedDB).
+
+const SESSION_KEY = 'paystream.wallet';
+
+export interface WalletSession {
+  walletId: WalletId;
+  accountId: string;
+  network: HederaNetwork;
+}
+
+/** The saved session, if it belongs to the currently selected network. */
+export function loadWalletSession(): WalletSession | null {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    const valid = raw && typeof raw.walletId === 'string' && typeof raw.accountId === 'string' && isHederaNetwork(raw.network);
+    return valid && raw.network === getNetwork() ? raw : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveWalletSession(session: WalletSession | null): void {
+  try {
+    if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    else localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Private mode / storage disabled — the connection just won't survive a reload
+  }
+}
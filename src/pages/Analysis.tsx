@@ -1,72 +1,43 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import MermaidDiagram from '../components/MermaidDiagram';
+import ArchitectureMap from '../components/ArchitectureMap';
+import IssueExportDialog from '../components/IssueExportDialog';
+import WalletButton from '../components/WalletButton';
+import ApiSettings from '../components/ApiSettings';
+import PaymentBadge from '../components/PaymentBadge';
+import AuditTrailPanel from '../components/AuditTrailPanel';
+import AllocationEditor from '../components/AllocationEditor';
+import CostEstimatePanel from '../components/CostEstimatePanel';
+import RunReceipt from '../components/RunReceipt';
+import { useAgentStream } from '../hooks/use-agent-stream';
+import { useWallet } from '../hooks/use-wallet';
+import { usePaymentVerification } from '../hooks/use-payment-verification';
+import type { AgentStreamEvent } from '../lib/agent-events';
+import { analyzeRepo, cancelRun } from '../lib/api';
+import { DEFAULT_ALLOCATION, isDefaultAllocation, type Allocation } from '../lib/allocation';
+import type { AgentStatus, AnalysisData, AnalysisKey, RepoMeta } from '../lib/analysis-types';
+import { isAnalysisKey, parseAgentResult, parseAnalysisData } from '../lib/analysis-schema';
+import { getRun, saveRun, type HistoryEntry, type HistoryStatus } from '../lib/history-store';
+import { receiptFromRun } from '../lib/receipt';
+import { fileStem } from '../lib/download';
+import { exportDeckToPptx, slideColor } from '../lib/ceo-deck';
+import { exportSarif } from '../lib/sarif';
+import { escrowAccountId, fundBudget, fundsOwnRun, type EscrowFunding } from '../lib/escrow';
+import { getNetwork, hashscanTxUrl, type HederaNetwork } from '../lib/hedera-network';
+import type { ExpectedPayment } from '../lib/mirror-node';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 type Phase = 'idle' | 'fetching' | 'analyzing' | 'complete';
 type Tab = 'architecture' | 'techstack' | 'insights' | 'ceodeck' | 'devdocs';
 
-interface AgentStatus {
-  name: string;
-  key: string;
-  status: 'pending' | 'working' | 'complete' | 'error';
-  payment: number;
-  txId: string;
-  allocation: number;
-}
-
-interface RepoMeta {
-  repoName: string;
-  fileCount: number;
-  languages: string[];
-}
-
-interface TechItem   { name: string; version?: string; role: string; category: string }
-interface Module     { path: string; purpose: string; type: string }
-interface Dependency { name: string; purpose: string; risk: string; riskReason?: string }
-interface GlossaryItem { term: string; plain: string }
-interface TechAnalogy  { tech: string; analogy: string; what: string }
-interface CEOSlide     { slideNumber: number; title: string; content: string; speakerNote: string }
-interface RedFlag      { severity: string; issue: string; location: string; suggestion: string }
-interface TechDebtItem { item: string; effort: string; impact: string }
-
-interface CodeReaderResult {
-  architectureMap: { mermaid: string; description: string };
-  techStack: TechItem[];
-  modules: Module[];
-  dependencies: Dependency[];
-}
-interface SimplifierResult {
-  codeFlow: string;
-  glossary: GlossaryItem[];
-  onboardingDoc: string;
-}
-interface AnalogyResult {
-  techAnalogies: TechAnalogy[];
-  ceoSlides: CEOSlide[];
-}
-interface InsightResult {
-  complexityScore: { score: number; label: string; reasoning: string; cleanParts?: string; overEngineered?: string };
-  redFlags: RedFlag[];
-  scalability: { canHandle10x: boolean; bottleneck: string; assessment: string };
-  techDebt: TechDebtItem[];
-  rebuildSuggestion: string;
-}
-interface AnalysisData {
-  codeReader?: CodeReaderResult;
-  simplifier?: SimplifierResult;
-  analogy?: AnalogyResult;
-  insight?: InsightResult;
-}
-
 // ─── Agent definitions — always rendered (pending → working → complete) ───────
 
-const AGENT_DEFS = [
-  { name: 'Code Reader Agent', color: '#8B5CF6', role: 'Architecture · Map',     icon: '◈' },
-  { name: 'Simplifier Agent',  color: '#38B2F6', role: 'Flow · Docs · Glossary', icon: '◇' },
-  { name: 'Analogy Agent',     color: '#88B5FC', role: 'CEO Deck · Analogies',   icon: '◆' },
-  { name: 'Insight Agent',     color: '#10B981', role: 'Red Flags · Complexity', icon: '◉' },
+const AGENT_DEFS: { key: AnalysisKey; name: string; color: string; role: string; icon: string }[] = [
+  { key: 'codeReader', name: 'Code Reader Agent', color: '#8B5CF6', role: 'Architecture · Map',     icon: '◈' },
+  { key: 'simplifier', name: 'Simplifier Agent',  color: '#38B2F6', role: 'Flow · Docs · Glossary', icon: '◇' },
+  { key: 'analogy',    name: 'Analogy Agent',     color: '#88B5FC', role: 'CEO Deck · Analogies',   icon: '◆' },
+  { key: 'insight',    name: 'Insight Agent',     color: '#10B981', role: 'Red Flags · Complexity', icon: '◉' },
 ];
 
 // ─── Animated HBAR counter (ticks from 0 → target while agent works) ─────────
@@ -128,10 +99,19 @@ const Analysis = () => {
   // Input — pre-fill repo URL from ?repo= query param (passed by Landing)
   const [repoUrl, setRepoUrl]   = useState(() => searchParams.get('repo') || '');
   const [budget, setBudget]     = useState(1.5);
+  const [allocation, setAllocation] = useState<Allocation>(DEFAULT_ALLOCATION);
+  const [splitOpen, setSplitOpen]   = useState(false);
 
   // State machine
   const [phase, setPhase]       = useState<Phase>('idle');
   const [activeTab, setActiveTab] = useState<Tab>('architecture');
+  // Results streamed in this tab, as opposed to reopened from history
+  const [liveRun, setLiveRun]   = useState(false);
+
+  // Architecture map ↔ module cards
+  const [selectedModule, setSelectedModule] = useState<number | null>(null);
+  const [hoveredModule, setHoveredModule]   = useState<number | null>(null);
+  const moduleCardRefs = useRef<(HTMLDivElement | null)[]>([]);
 
   // Live feed
   const [repoMeta, setRepoMeta]       = useState<RepoMeta | null>(null);
@@ -139,14 +119,118 @@ const Analysis = () => {
   const [remainingBudget, setRemainingBudget] = useState(0);
   const [refundAmount, setRefundAmount]   = useState(0);
   const [refundTxId, setRefundTxId]       = useState('');
+  const [refundAt, setRefundAt]           = useState('');
+  const [topicId, setTopicId]             = useState('');
   const [errorMsg, setErrorMsg]           = useState('');
+  const [cancelled, setCancelled]         = useState(false);
+  const [failed, setFailed]               = useState(false);
+  const [cancelling, setCancelling]       = useState(false);
 
-  // Results
+  // Results — validated per agent; keys with issues render in a degraded state
   const [data, setData] = useState<AnalysisData>({});
+  const [degraded, setDegraded] = useState<Partial<Record<AnalysisKey, string[]>>>({});
 
   // Share link
   const [shareId, setShareId]         = useState('');
   const [shareCopied, setShareCopied] = useState(false);
+  const [deckExporting, setDeckExporting] = useState(false);
+  const [issuesOpen, setIssuesOpen]       = useState(false);
+  // Red flags the last SARIF download had to leave out
+  const [sarifSkipped, setSarifSkipped]   = useState(0);
+
+  // Wallet-funded runs
+  const { wallet, refreshBalance } = useWallet();
+  const [funding, setFunding] = useState(false);
+  const [escrowFunding, setEscrowFunding] = useState<EscrowFunding | null>(null);
+  const refundAccount = escrowFunding?.accountId ?? '';
+
+  // Local history — one record per run, upserted as results arrive
+  const historyIdRef = useRef('');
+  const createdAtRef = useRef('');
+  const networkRef   = useRef<HederaNetwork>(getNetwork());
+
+  // Every payment the backend reported, checked against the mirror node of
+  // the network the run was made on.
+  // Escrow-funded runs pay agents and refund out of the escrow account.
+  const payments = useMemo<ExpectedPayment[]>(() => {
+    const payer = refundAccount ? escrowAccountId() : undefined;
+    const notBefore = createdAtRef.current || undefined;
+    const list: ExpectedPayment[] = agents
+      .filter((a) => a.txId)
+      .map((a) => ({ txId: a.txId, amount: a.payment, payer, payee: a.account, notBefore }));
+    if (refundTxId) list.push({ txId: refundTxId, amount: refundAmount, payer, payee: refundAccount || undefined, notBefore });
+    return list;
+  }, [agents, refundTxId, refundAmount, refundAccount]);
+  const verification = usePaymentVerification(payments, networkRef.current);
+
+  // How the run ended, as far as this tab has seen; a funded run saved
+  // before it finishes counts as partial until it does
+  const hasData = Object.keys(data).length > 0;
+  const runStatus: HistoryStatus =
+    cancelled ? 'cancelled' :
+    failed    ? (hasData ? 'partial' : 'failed') :
+    phase !== 'complete' || agents.some((a) => a.status !== 'complete') || Object.values(degraded).some(Boolean) ? 'partial' :
+    'complete';
+
+  // This run as it is saved to history — also the source of its receipt.
+  // Payment times are consensus times from the mirror node, not this clock.
+  const runRecord = useMemo<HistoryEntry>(() => {
+    const consensusAt = (txId: string) => (txId && verification[txId]?.consensusAt) || undefined;
+    return {
+      id: historyIdRef.current,
+      status: runStatus,
+      repoUrl: repoUrl.trim(),
+      repoMeta,
+      data,
+      agents: agents.map((a) => consensusAt(a.txId) ? { ...a, paidAt: consensusAt(a.txId) } : a),
+      budget,
+      refund: refundTxId || refundAmount ? { amount: refundAmount, txId: refundTxId, at: consensusAt(refundTxId) ?? (refundAt || undefined) } : null,
+      funding: escrowFunding,
+      network: networkRef.current,
+      shareId: shareId || undefined,
+      topicId: topicId || undefined,
+      createdAt: createdAtRef.current,
+    };
+  }, [runStatus, data, agents, repoMeta, repoUrl, budget, refundAmount, refundTxId, refundAt, escrowFunding, shareId, topicId, verification]);
+
+  // Only runs streamed in this tab are saved; a reopened one is already stored.
+  // A funded run is saved as soon as its escrow lands, whatever happens next;
+  // an anonymous one only once it has something worth reopening.
+  useEffect(() => {
+    if (!liveRun || !runRecord.id) return;
+    if (!runRecord.funding && (phase !== 'complete' || Object.keys(runRecord.data).length === 0)) return;
+    saveRun(runRecord).catch((e) => console.warn('Could not save analysis to history:', e));
+  }, [liveRun, phase, runRecord]);
+
+  // Reopen a past run from /history (?history=<id>) without re-running it
+  useEffect(() => {
+    const id = searchParams.get('history');
+    if (!id) return;
+    getRun(id)
+      .then((entry) => {
+        if (!entry) { setErrorMsg('That run is no longer in your history.'); return; }
+        historyIdRef.current = entry.id;
+        createdAtRef.current = entry.createdAt;
+        setRepoUrl(entry.repoUrl);
+        setBudget(entry.budget);
+        setRepoMeta(entry.repoMeta);
+        setData(entry.data);
+        setLiveRun(false);
+        setCancelled(entry.status === 'cancelled');
+        setFailed(entry.status === 'failed');
+        setAgents(entry.agents);
+        setRemainingBudget(entry.budget - entry.agents.reduce((sum, a) => sum + (a.payment || 0), 0));
+        setRefundAmount(entry.refund?.amount ?? 0);
+        setRefundTxId(entry.refund?.txId ?? '');
+        setRefundAt(entry.refund?.at ?? '');
+        setEscrowFunding(entry.funding ?? null);
+        if (entry.network) networkRef.current = entry.network;
+        setShareId(entry.shareId ?? '');
+        setTopicId(entry.topicId ?? '');
+        setPhase('complete');
+      })
+      .catch((e) => setErrorMsg('Could not open history: ' + (e instanceof Error ? e.message : String(e))));
+  }, [searchParams]);
 
   // Pulse animation for running state
   const [pulse, setPulse] = useState(true);
@@ -159,109 +243,215 @@ const Analysis = () => {
   // Orchestrator phase label
   const workingCount = agents.filter((a) => a.status === 'working').length;
   const orchestratorStatus =
+    cancelled          ? 'RUN CANCELLED' :
     workingCount > 1  ? 'PHASE 2 · PARALLEL DISPATCH' :
     workingCount === 1 ? 'PHASE 1 · BOOT SEQUENCE' :
     agents.length > 0  ? 'ALL AGENTS COMPLETE' :
     'INITIALIZING...';
 
-  // ─── Start Analysis ─────────────────────────────────────────────────────────
-
-  const startAnalysis = () => {
-    const url = repoUrl.trim();
-    if (!url) { setErrorMsg('Please enter a GitHub repo URL.'); return; }
-    if (!url.includes('github.com')) { setErrorMsg('Only GitHub repos are supported right now.'); return; }
-
-    setErrorMsg('');
-    setData({});
-    setAgents([]);
-    setRepoMeta(null);
-    setRefundAmount(0);
-    setRefundTxId('');
-    setShareId('');
-    setShareCopied(false);
-    setRemainingBudget(budget);
-    setPhase('fetching');
-
-    const API_BASE = import.meta.env.VITE_API_URL || (import.meta.env.PROD ? 'https://paystream-backend-x8y9.onrender.com' : 'http://localhost:3001');
-    const apiUrl = API_BASE + '/api/analyze?repo=' + encodeURIComponent(url) + '&budget=' + budget;
-    const es = new EventSource(apiUrl);
+  // ─── Stream events ──────────────────────────────────────────────────────────
 
-    es.onmessage = (e) => {
-      const event = JSON.parse(e.data);
+  const handleEvent = (event: AgentStreamEvent) => {
+    switch (event.type) {
+      case 'run_started':
+        if (event.topicId) setTopicId(event.topicId);
+        break;
 
-      if (event.type === 'fetching_repo') {
+      case 'fetching_repo':
         setPhase('fetching');
-      }
+        break;
 
-      if (event.type === 'repo_fetched') {
+      case 'repo_fetched':
         setRepoMeta(event.meta);
         setPhase('analyzing');
-      }
+        break;
 
-      if (event.type === 'agent_start') {
-        setAgents((prev) => [
+      case 'agent_start':
+        // Ignore a replayed start after a resume — the agent keeps its progress
+        setAgents((prev) => prev.some((a) => a.name === event.agent) ? prev : [
           ...prev,
           { name: event.agent, key: '', status: 'working', payment: event.payment, txId: '', allocation: event.allocation },
         ]);
-      }
+        break;
 
-      if (event.type === 'agent_complete') {
+      case 'agent_complete': {
         setAgents((prev) =>
           prev.map((a) =>
             a.name === event.agent && a.status === 'working'
-              ? { ...a, status: 'complete', txId: event.txId, payment: event.payment }
+              ? { ...a, key: event.key, status: 'complete', txId: event.txId, account: event.account, payment: event.payment }
               : a
           )
         );
         setRemainingBudget(event.remainingBudget);
-        setData((prev) => ({ ...prev, [event.key]: event.result }));
+        if (!isAnalysisKey(event.key)) break;
+        const { data: result, issues } = parseAgentResult(event.key, event.result);
+        setData((prev) => ({ ...prev, [event.key]: result }));
+        setDegraded((prev) => ({ ...prev, [event.key]: issues.length ? issues : undefined }));
+        break;
       }
 
-      if (event.type === 'agent_error') {
+      case 'agent_error':
         setAgents((prev) =>
           prev.map((a) => a.name === event.agent ? { ...a, status: 'error' } : a)
         );
-      }
+        break;
 
-      if (event.type === 'analysis_complete') {
-        setData(event.data);
+      case 'analysis_complete': {
+        const { data: all, issues } = parseAnalysisData(event.data);
+        setData(all);
+        setDegraded(issues);
+        break;
       }
 
-      if (event.type === 'report_saved') {
+      case 'report_saved':
         setShareId(event.shareId);
-      }
+        break;
 
-      if (event.type === 'refund') {
+      case 'refund':
         setRefundAmount(event.amount);
         setRefundTxId(event.txId);
         setPhase('complete');
-        es.close();
-      }
+        if (wallet) refreshBalance();
+        break;
 
-      if (event.type === 'error') {
+      case 'error':
         setErrorMsg(event.message);
+        setFailed(true);
         setPhase('idle');
-        es.close();
+        break;
+    }
+  };
+
+  const stream = useAgentStream({
+    onEvent: handleEvent,
+    onConnectionError: () => {
+      // Keep whatever already completed — those agents have been paid for
+      const hasResults = Object.keys(data).length > 0;
+      setFailed(true);
+      setErrorMsg(hasResults
+        ? 'Lost connection to the PayStream server. Showing the results received so far.'
+        : 'Could not connect to PayStream server. Please try again later.');
+      setPhase(hasResults ? 'complete' : 'idle');
+    },
+  });
+
+  // ─── Start Analysis ─────────────────────────────────────────────────────────
+
+  const startAnalysis = async () => {
+    const url = repoUrl.trim();
+    if (!url) { setErrorMsg('Please enter a GitHub repo URL.'); return; }
+    if (!url.includes('github.com')) { setErrorMsg('Only GitHub repos are supported right now.'); return; }
+    if (funding) return;
+
+    // With a wallet connected the user escrows the budget themselves;
+    // otherwise (or with no escrow account) the server fronts the HBAR.
+    let escrow: EscrowFunding | null = null;
+    if (wallet && fundsOwnRun(wallet)) {
+      setErrorMsg('');
+      setFunding(true);
+      try {
+        escrow = await fundBudget(wallet, budget);
+        refreshBalance();
+      } catch (e) {
+        setErrorMsg('Budget was not funded: ' + (e instanceof Error ? e.message : String(e)));
+        return;
+      } finally {
+        setFunding(false);
       }
-    };
+    }
 
-    es.onerror = () => {
-      setErrorMsg('Could not connect to PayStream server. Please try again later.');
-      setPhase('idle');
-      es.close();
-    };
+    setErrorMsg('');
+    setEscrowFunding(escrow);
+    setData({});
+    setDegraded({});
+    setSelectedModule(null);
+    setLiveRun(true);
+    setAgents([]);
+    setRepoMeta(null);
+    setRefundAmount(0);
+    setRefundTxId('');
+    setRefundAt('');
+    setShareId('');
+    setTopicId('');
+    setShareCopied(false);
+    setSarifSkipped(0);
+    setRemainingBudget(budget);
+    setCancelled(false);
+    setFailed(false);
+    setPhase('fetching');
+    historyIdRef.current = crypto.randomUUID?.() ?? String(Date.now());
+    createdAtRef.current = new Date().toISOString();
+    networkRef.current = getNetwork();
+
+    stream.start(analyzeRepo({ repo: url, budget, escrow, allocation: isDefaultAllocation(allocation) ? undefined : allocation }));
+  };
+
+  // ─── Cancel ─────────────────────────────────────────────────────────────────
+  // Stop listening immediately, then ask the server to halt the remaining
+  // agents. Completed agents stay on screen along with any refund it returns.
+
+  const cancelAnalysis = async () => {
+    const runId = stream.runId;
+    const hasResults = Object.keys(data).length > 0;
+    stream.cancel();
+    setCancelled(true);
+    setAgents((prev) => prev.map((a) => a.status === 'working' ? { ...a, status: 'cancelled' } : a));
+    setPhase(hasResults || agents.length > 0 ? 'complete' : 'idle');
+    if (!hasResults && agents.length === 0) setErrorMsg('Analysis cancelled.');
+    if (!runId) return;
+
+    setCancelling(true);
+    try {
+      const refund = await cancelRun(runId);
+      if (refund) {
+        setRefundAmount(refund.amount);
+        setRefundTxId(refund.txId);
+      }
+    } catch (e) {
+      setErrorMsg('Run stopped, but the server did not confirm the cancellation: ' + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setCancelling(false);
+    }
   };
 
   const reset = () => {
+    stream.reset();
+    historyIdRef.current = '';
+    setCancelled(false);
+    setFailed(false);
     setPhase('idle');
     setData({});
+    setDegraded({});
+    setSelectedModule(null);
+    setLiveRun(false);
     setAgents([]);
     setRepoMeta(null);
     setErrorMsg('');
+    setEscrowFunding(null);
     setRefundAmount(0);
     setRefundTxId('');
+    setRefundAt('');
     setShareId('');
+    setTopicId('');
     setShareCopied(false);
+    setSarifSkipped(0);
+  };
+
+  const downloadSarif = () => {
+    if (!data.insight) return;
+    setSarifSkipped(exportSarif(data.insight.redFlags, repoMeta?.repoName || 'paystream', repoUrl.trim() || undefined));
+  };
+
+  const exportDeck = async () => {
+    if (!data.analogy) return;
+    setDeckExporting(true);
+    try {
+      await exportDeckToPptx(data.analogy.ceoSlides, repoMeta?.repoName || 'paystream');
+    } catch (e) {
+      setErrorMsg('Could not export the deck: ' + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setDeckExporting(false);
+    }
   };
 
   const copyShareLink = () => {
@@ -271,6 +461,11 @@ const Analysis = () => {
     setTimeout(() => setShareCopied(false), 2500);
   };
 
+  const selectModule = (index: number) => {
+    setSelectedModule(index);
+    moduleCardRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   // ─── Tab availability ────────────────────────────────────────────────────────
 
   const tabAvailable = {
@@ -296,6 +491,9 @@ const Analysis = () => {
       <div style={{ maxWidth: 900, margin: '0 auto' }}>
 
         {/* Header */}
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: 8 }}>
+          <WalletButton />
+        </div>
         <header style={{ textAlign: 'center', marginBottom: 48 }}>
           <div style={{ fontSize: 10, color: 'rgba(136,181,252,0.3)', letterSpacing: 4, textTransform: 'uppercase', marginBottom: 12, fontFamily: "'JetBrains Mono',monospace" }}>
             ETHDenver 2026
@@ -307,6 +505,15 @@ const Analysis = () => {
             PAYSTREAM
           </h1>
           <p style={{ color: 'rgba(232,244,255,0.35)', fontSize: 13, margin: 0, fontFamily: "'JetBrains Mono',monospace" }}>Codebase Intelligence · 4 AI Agents · Real HBAR on Hedera</p>
+          <button
+            onClick={() => navigate('/history')}
+            style={{ marginTop: 14, padding: '5px 14px', background: 'transparent', border: '1px solid rgba(136,181,252,0.15)', borderRadius: 6, color: 'rgba(136,181,252,0.55)', fontSize: 11, cursor: 'pointer', fontFamily: "'JetBrains Mono',monospace", letterSpacing: 1, transition: 'all 0.2s' }}
+            onMouseEnter={(e) => { e.currentTarget.style.borderColor = 'rgba(136,181,252,0.4)'; e.currentTarget.style.color = '#88B5FC'; }}
+            onMouseLeave={(e) => { e.currentTarget.style.borderColor = 'rgba(136,181,252,0.15)'; e.currentTarget.style.color = 'rgba(136,181,252,0.55)'; }}
+          >
+            ◷ past analyses
+          </button>
+          <span style={{ display: 'inline-block', marginTop: 14, marginLeft: 8 }}><ApiSettings /></span>
         </header>
 
         {/* Error */}
@@ -316,6 +523,14 @@ const Analysis = () => {
           </div>
         )}
 
+        {/* Reconnecting */}
+        {stream.status === 'reconnecting' && (
+          <div style={{ padding: '14px 18px', background: 'rgba(251,191,36,0.06)', border: '1px solid rgba(251,191,36,0.25)', borderRadius: 12, color: 'rgba(253,224,71,0.85)', fontSize: 13, marginBottom: 24, display: 'flex', gap: 10, animation: 'fadeIn 0.3s ease' }}>
+            <span style={{ flexShrink: 0, display: 'inline-block', animation: 'spinIcon 1.5s linear infinite' }}>⟳</span>
+            Connection lost — resuming your run (attempt {stream.attempt}). Completed agents are kept.
+          </div>
+        )}
+
         {/* ── IDLE: Input Form ─────────────────────────────────────────────── */}
         {phase === 'idle' && (
           <div style={{ border: '1px solid rgba(136,181,252,0.25)', borderRadius: 16, padding: 36, background: 'rgba(8,18,38,0.6)', marginBottom: 32, animation: 'fadeIn 0.4s ease', backdropFilter: 'blur(20px)' }}>
@@ -351,25 +566,47 @@ const Analysis = () => {
               onChange={(e) => setBudget(parseFloat(e.target.value))}
               style={{ width: '100%', accentColor: '#7E3FF2', marginBottom: 8 }}
             />
-            <div style={{ display: 'flex', justifyContent: 'space-between', color: 'rgba(232,244,255,0.18)', fontSize: 10, marginBottom: 28, fontFamily: "'JetBrains Mono',monospace" }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', color: 'rgba(232,244,255,0.18)', fontSize: 10, marginBottom: 12, fontFamily: "'JetBrains Mono',monospace" }}>
               <span>0.5</span><span>5.0</span>
             </div>
+            <button
+              onClick={() => setSplitOpen((v) => !v)}
+              style={{ background: 'transparent', border: 'none', padding: 0, marginBottom: splitOpen ? 12 : 16, color: 'rgba(136,181,252,0.6)', fontSize: 11, cursor: 'pointer', fontFamily: "'JetBrains Mono',monospace", letterSpacing: 1 }}
+            >
+              {splitOpen ? '▾' : '▸'} split per agent{!isDefaultAllocation(allocation) && ' · custom'}
+            </button>
+            {splitOpen && (
+              <div style={{ marginBottom: 20, padding: '14px 16px', background: 'rgba(8,20,45,0.4)', border: '1px solid rgba(136,181,252,0.1)', borderRadius: 10 }}>
+                <AllocationEditor agents={AGENT_DEFS} value={allocation} budget={budget} onChange={setAllocation} />
+              </div>
+            )}
+            <CostEstimatePanel repoUrl={repoUrl} budget={budget} allocation={allocation} agents={AGENT_DEFS} onUseBudget={setBudget} />
+            <div style={{ color: wallet && fundsOwnRun(wallet) ? 'rgba(16,185,129,0.7)' : 'rgba(232,244,255,0.3)', fontSize: 11, marginBottom: 24, fontFamily: "'JetBrains Mono',monospace", lineHeight: 1.6 }}>
+              {wallet && fundsOwnRun(wallet)
+                ? <>Budget is escrowed from {wallet.accountId()} · unspent HBAR is refunded there</>
+                : wallet?.id === 'mock'
+                ? <>Mock wallet · nothing is escrowed · the server fronts the budget</>
+                : wallet
+                ? <>No escrow account is configured · the server fronts the budget for this run</>
+                : <>No wallet connected · the server fronts the budget for this run</>}
+            </div>
 
             <button
               onClick={startAnalysis}
+              disabled={funding}
               style={{
                 width: '100%', padding: '15px 0',
                 background: 'linear-gradient(135deg, #7E3FF2 0%, #4F46E5 100%)',
                 color: '#fff',
                 fontFamily: "'DM Sans', sans-serif", fontWeight: 700, fontSize: 15,
-                border: 'none', borderRadius: 10, cursor: 'pointer', letterSpacing: 0.5,
+                border: 'none', borderRadius: 10, cursor: funding ? 'wait' : 'pointer', letterSpacing: 0.5,
                 boxShadow: '0 0 40px rgba(126,63,242,0.4), inset 0 1px 0 rgba(255,255,255,0.12)',
                 transition: 'all 0.3s',
               }}
               onMouseEnter={(e) => { e.currentTarget.style.transform = 'translateY(-2px)'; e.currentTarget.style.boxShadow = '0 0 60px rgba(126,63,242,0.6)'; }}
               onMouseLeave={(e) => { e.currentTarget.style.transform = 'translateY(0)'; e.currentTarget.style.boxShadow = '0 0 40px rgba(126,63,242,0.4)'; }}
             >
-              ⬡ Can you explain this to my CEO?
+              {funding ? '⬡ Waiting for wallet signature…' : '⬡ Can you explain this to my CEO?'}
             </button>
 
             <div style={{ marginTop: 20, display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
@@ -396,6 +633,7 @@ const Analysis = () => {
               FETCHING REPOSITORY...
             </div>
             <div style={{ color: 'rgba(232,244,255,0.3)', fontSize: 12, fontFamily: "'JetBrains Mono',monospace" }}>{repoUrl}</div>
+            <CancelButton onClick={cancelAnalysis} style={{ marginTop: 28 }} />
           </div>
         )}
 
@@ -449,6 +687,14 @@ const Analysis = () => {
                   <div style={{ marginTop: 10, padding: '5px 14px', background: 'rgba(136,181,252,0.08)', border: '1px solid rgba(136,181,252,0.2)', borderRadius: 4, display: 'inline-block' }}>
                     <span style={{ color: '#88B5FC', fontSize: 9, fontWeight: 700, letterSpacing: 2, fontFamily: "'JetBrains Mono',monospace" }}>{orchestratorStatus}</span>
                   </div>
+                  {phase === 'analyzing' && (
+                    <div style={{ marginTop: 10 }}>
+                      <CancelButton onClick={cancelAnalysis} />
+                    </div>
+                  )}
+                  {cancelling && (
+                    <div style={{ marginTop: 10, color: 'rgba(232,244,255,0.35)', fontSize: 10, fontFamily: "'JetBrains Mono',monospace" }}>requesting refund...</div>
+                  )}
                 </div>
               </div>
             </div>
@@ -470,6 +716,8 @@ const Analysis = () => {
                 const isWork  = status === 'working';
                 const isDone  = status === 'complete';
                 const isErr   = status === 'error';
+                const isCanc  = status === 'cancelled';
+                const isDegr  = isDone && !!agent && isAnalysisKey(agent.key) && !!degraded[agent.key];
 
                 return (
                   <div key={def.name} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
@@ -521,7 +769,7 @@ const Analysis = () => {
                           display: 'inline-block',
                           animation: isWork ? 'spinIcon 2s linear infinite' : undefined,
                         }}>
-                          {isDone ? '✓' : isErr ? '✕' : isWork ? '⟳' : '○'}
+                          {isDone ? '✓' : isErr ? '✕' : isCanc ? '⊘' : isWork ? '⟳' : '○'}
                         </span>
                         <span style={{ fontSize: 9, fontWeight: 700, color: isWork || isDone ? color : 'rgba(232,244,255,0.1)', letterSpacing: 1.2, textTransform: 'uppercase' }}>
                           {def.name.replace(' Agent', '')}
@@ -557,19 +805,28 @@ const Analysis = () => {
                               {agent.payment.toFixed(3)} <span style={{ fontSize: 10, opacity: 0.6 }}>ℏ</span>
                             </span>
                             {agent.txId && (
-                              <a
-                                href={`https://hashscan.io/testnet/transaction/${agent.txId}`}
-                                target="_blank" rel="noopener noreferrer"
-                                style={{ color: '#38B2F6', fontSize: 10, textDecoration: 'none', display: 'block', marginTop: 5, letterSpacing: 0.5 }}
-                              >
-                                view tx ↗
-                              </a>
+                              <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 5 }}>
+                                <a
+                                  href={hashscanTxUrl(agent.txId, networkRef.current)}
+                                  target="_blank" rel="noopener noreferrer"
+                                  style={{ color: '#38B2F6', fontSize: 10, textDecoration: 'none', letterSpacing: 0.5 }}
+                                >
+                                  view tx ↗
+                                </a>
+                                <PaymentBadge verification={verification[agent.txId]} />
+                              </div>
                             )}
                           </>
                         )}
+                        {isDegr && (
+                          <span style={{ color: '#FBBF24', fontSize: 10, display: 'block', marginTop: 5 }}>⚠ result degraded</span>
+                        )}
                         {isErr && (
                           <span style={{ color: '#F87171', fontSize: 11 }}>agent failed</span>
                         )}
+                        {isCanc && (
+                          <span style={{ color: 'rgba(232,244,255,0.35)', fontSize: 11 }}>cancelled</span>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -577,21 +834,67 @@ const Analysis = () => {
               })}
             </div>
 
+            {/* Planned vs actual spend */}
+            {phase === 'complete' && agents.some((a) => a.status === 'complete') && (
+              <div style={{ background: 'rgba(8,18,38,0.7)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 14, padding: '18px 24px', marginBottom: 28, fontFamily: "'JetBrains Mono',monospace" }}>
+                <div style={{ fontFamily: "'Orbitron', sans-serif", fontSize: 11, fontWeight: 700, color: '#88B5FC', letterSpacing: 2, marginBottom: 14 }}>PLANNED VS ACTUAL</div>
+                <div style={{ display: 'grid', gridTemplateColumns: '1.4fr 1fr 1fr 1fr', gap: '8px 16px', fontSize: 11 }}>
+                  {['Agent', 'Planned', 'Actual', 'Δ'].map((h) => (
+                    <span key={h} style={{ color: 'rgba(232,244,255,0.25)', fontSize: 9, letterSpacing: 2, textTransform: 'uppercase', textAlign: h === 'Agent' ? 'left' : 'right' }}>{h}</span>
+                  ))}
+                  {AGENT_DEFS.map((def) => {
+                    const agent   = agents.find((a) => a.name === def.name);
+                    // The server echoes the share it applied on agent_start; fall back to what was requested
+                    const planned = budget * (agent?.allocation ?? allocation[def.key]) / 100;
+                    const actual  = agent?.status === 'complete' ? agent.payment : 0;
+                    const delta   = actual - planned;
+                    return (
+                      <div key={def.key} style={{ display: 'contents' }}>
+                        <span style={{ color: def.color, fontWeight: 700 }}>{def.name.replace(' Agent', '')}</span>
+                        <span style={{ color: 'rgba(232,244,255,0.5)', textAlign: 'right' }}>{planned.toFixed(3)} ℏ</span>
+                        <span style={{ color: '#E8F4FF', textAlign: 'right' }}>{actual.toFixed(3)} ℏ</span>
+                        <span style={{ color: Math.abs(delta) < 0.0005 ? 'rgba(232,244,255,0.3)' : delta > 0 ? '#F87171' : '#34D399', textAlign: 'right' }}>
+                          {delta > 0 ? '+' : ''}{delta.toFixed(3)}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Refund banner */}
             {phase === 'complete' && refundAmount > 0 && (
               <div style={{ background: 'rgba(16,185,129,0.07)', border: '1px solid rgba(16,185,129,0.25)', padding: '18px 24px', borderRadius: 14, marginBottom: 28, animation: 'fadeIn 0.5s ease', display: 'flex', alignItems: 'center', gap: 16 }}>
                 <div style={{ width: 40, height: 40, borderRadius: '50%', background: 'rgba(16,185,129,0.15)', border: '1px solid rgba(16,185,129,0.3)', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#34D399', fontSize: 18, flexShrink: 0 }}>✓</div>
                 <div>
-                  <div style={{ fontFamily: "'Orbitron', sans-serif", fontWeight: 700, fontSize: 14, color: '#34D399', letterSpacing: 1, marginBottom: 4 }}>REFUNDED {refundAmount.toFixed(3)} HBAR</div>
+                  <div style={{ fontFamily: "'Orbitron', sans-serif", fontWeight: 700, fontSize: 14, color: '#34D399', letterSpacing: 1, marginBottom: 4 }}>REFUNDED {refundAmount.toFixed(3)} HBAR{refundAccount && ' → ' + refundAccount}</div>
                   {refundTxId && (
-                    <a href={'https://hashscan.io/testnet/transaction/' + refundTxId} target="_blank" rel="noopener noreferrer" style={{ color: 'rgba(52,211,153,0.5)', fontSize: 12, textDecoration: 'none', fontFamily: "'JetBrains Mono',monospace" }}>
-                      view refund on HashScan ↗
-                    </a>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+                      <a href={hashscanTxUrl(refundTxId, networkRef.current)} target="_blank" rel="noopener noreferrer" style={{ color: 'rgba(52,211,153,0.5)', fontSize: 12, textDecoration: 'none', fontFamily: "'JetBrains Mono',monospace" }}>
+                        view refund on HashScan ↗
+                      </a>
+                      <PaymentBadge verification={verification[refundTxId]} />
+                    </div>
                   )}
                 </div>
               </div>
             )}
 
+            {/* ── Receipt ───────────────────────────────────────────────── */}
+            {phase === 'complete' && (runRecord.agents.some((a) => a.txId) || runRecord.refund) && (
+              <div style={{ marginBottom: 28 }}>
+                <RunReceipt receipt={receiptFromRun(runRecord)} />
+              </div>
+            )}
+
+            {/* ── HCS audit trail ───────────────────────────────────────── */}
+            {topicId && (
+              <div style={{ marginBottom: 28 }}>
+                <AuditTrailPanel topicId={topicId} live={phase === 'analyzing'} />
+              </div>
+            )}
+
             {/* ── Share with CEO banner ─────────────────────────────────── */}
             {phase === 'complete' && shareId && (
               <div style={{
@@ -678,9 +981,17 @@ const Analysis = () => {
                 {/* ── Architecture Tab ─────────────────────────────────── */}
                 {activeTab === 'architecture' && data.codeReader && (
                   <div style={{ animation: 'fadeIn 0.4s ease' }}>
+                    <DegradedNotice agent="Code Reader Agent" issues={degraded.codeReader} />
                     <SectionLabel>Architecture Map</SectionLabel>
                     <div style={{ border: '1px solid rgba(255,255,255,0.06)', borderRadius: 10, overflow: 'hidden', marginBottom: 24 }}>
-                      <MermaidDiagram chart={data.codeReader.architectureMap.mermaid} />
+                      <ArchitectureMap
+                        chart={data.codeReader.architectureMap.mermaid}
+                        modules={data.codeReader.modules || []}
+                        highlightedModule={hoveredModule ?? selectedModule}
+                        onSelectModule={selectModule}
+                        exportName={fileStem(repoMeta?.repoName || 'paystream') + '-architecture'}
+                        trusted={liveRun}
+                      />
                     </div>
                     <p style={{ color: 'rgba(232,244,255,0.45)', fontSize: 13, lineHeight: 1.7, marginBottom: 28, padding: '16px 20px', background: 'rgba(8,18,38,0.6)', borderRadius: 8, border: '1px solid rgba(255,255,255,0.06)' }}>
                       {data.codeReader.architectureMap.description}
@@ -689,7 +1000,18 @@ const Analysis = () => {
                     <SectionLabel>Modules</SectionLabel>
                     <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(260px, 1fr))', gap: 12, marginBottom: 24 }}>
                       {(data.codeReader.modules || []).map((mod, i) => (
-                        <div key={i} style={{ background: 'rgba(8,18,38,0.6)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 8, padding: '16px 18px' }}>
+                        <div
+                          key={i}
+                          ref={(el) => { moduleCardRefs.current[i] = el; }}
+                          onMouseEnter={() => setHoveredModule(i)}
+                          onMouseLeave={() => setHoveredModule(null)}
+                          onClick={() => setSelectedModule(selectedModule === i ? null : i)}
+                          style={{
+                            background: selectedModule === i ? 'rgba(251,191,36,0.05)' : 'rgba(8,18,38,0.6)',
+                            border: '1px solid ' + (selectedModule === i ? 'rgba(251,191,36,0.45)' : hoveredModule === i ? 'rgba(136,181,252,0.25)' : 'rgba(255,255,255,0.06)'),
+                            borderRadius: 8, padding: '16px 18px', cursor: 'pointer', transition: 'border-color 0.2s, background 0.2s',
+                          }}
+                        >
                           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
                             <code style={{ color: '#88B5FC', fontSize: 11 }}>{mod.path}</code>
                             <span style={{ fontSize: 10, padding: '2px 8px', background: 'rgba(8,20,45,0.7)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 4, color: 'rgba(232,244,255,0.25)' }}>
@@ -719,6 +1041,7 @@ const Analysis = () => {
                 {/* ── Tech Stack Tab ───────────────────────────────────── */}
                 {activeTab === 'techstack' && data.codeReader && (
                   <div style={{ animation: 'fadeIn 0.4s ease' }}>
+                    <DegradedNotice agent="Code Reader Agent" issues={degraded.codeReader} />
                     <SectionLabel>Tech Stack</SectionLabel>
                     <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))', gap: 14, marginBottom: 32 }}>
                       {(data.codeReader.techStack || []).map((tech, i) => {
@@ -752,6 +1075,7 @@ const Analysis = () => {
                 {/* ── Insights Tab ─────────────────────────────────────── */}
                 {activeTab === 'insights' && data.insight && (
                   <div style={{ animation: 'fadeIn 0.4s ease' }}>
+                    <DegradedNotice agent="Insight Agent" issues={degraded.insight} />
 
                     {/* Complexity Score */}
                     <SectionLabel>Complexity Score</SectionLabel>
@@ -783,7 +1107,22 @@ const Analysis = () => {
                     })()}
 
                     {/* Red Flags */}
-                    <SectionLabel>Red Flags</SectionLabel>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+                      <SectionLabel>Red Flags</SectionLabel>
+                      <div style={{ display: 'flex', gap: 8 }}>
+                        <ToolButton onClick={() => setIssuesOpen(true)} disabled={!data.insight.redFlags.length && !data.insight.techDebt.length}>
+                          ⇪ export issues
+                        </ToolButton>
+                        <ToolButton onClick={downloadSarif} disabled={!data.insight.redFlags.length}>
+                          ⇩ download sarif
+                        </ToolButton>
+                      </div>
+                    </div>
+                    {sarifSkipped > 0 && (
+                      <div style={{ color: 'rgba(251,191,36,0.7)', fontSize: 11, fontFamily: "'JetBrains Mono',monospace", margin: '-6px 0 14px' }}>
+                        {sarifSkipped} red flag{sarifSkipped === 1 ? '' : 's'} without a file location left out of the SARIF file — code scanning needs one for every result.
+                      </div>
+                    )}
                     <div style={{ marginBottom: 28 }}>
                       {data.insight.redFlags.length === 0 ? (
                         <div style={{ color: '#10B981', fontSize: 13, padding: '16px 20px', background: 'rgba(16,185,129,0.06)', border: '1px solid rgba(16,185,129,0.2)', borderRadius: 8 }}>
@@ -840,15 +1179,36 @@ const Analysis = () => {
                     </div>
                   </div>
                 )}
+                {data.insight && (
+                  <IssueExportDialog
+                    open={issuesOpen}
+                    onClose={() => setIssuesOpen(false)}
+                    repoName={repoMeta?.repoName || 'paystream'}
+                    redFlags={data.insight.redFlags}
+                    techDebt={data.insight.techDebt}
+                  />
+                )}
 
                 {/* ── CEO Deck Tab ─────────────────────────────────────── */}
                 {activeTab === 'ceodeck' && data.analogy && (
                   <div style={{ animation: 'fadeIn 0.4s ease' }}>
-                    <SectionLabel>CEO Deck — 5 Slides</SectionLabel>
+                    <DegradedNotice agent="Analogy Agent" issues={degraded.analogy} />
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+                      <SectionLabel>CEO Deck — 5 Slides</SectionLabel>
+                      <div style={{ display: 'flex', gap: 8 }}>
+                        {shareId && (
+                          <ToolButton onClick={() => window.open('/report/' + shareId + '/present', '_blank')} disabled={!data.analogy.ceoSlides.length}>
+                            ▶ present
+                          </ToolButton>
+                        )}
+                        <ToolButton onClick={exportDeck} disabled={deckExporting || !data.analogy.ceoSlides.length}>
+                          {deckExporting ? 'exporting...' : '⇩ download .pptx'}
+                        </ToolButton>
+                      </div>
+                    </div>
                     <div style={{ display: 'flex', flexDirection: 'column', gap: 16, marginBottom: 32 }}>
                       {(data.analogy.ceoSlides || []).map((slide, i) => {
-                        const slideColors = ['#8B5CF6', '#38B2F6', '#FBBF24', '#10B981', '#F472B6'];
-                        const col = slideColors[i % slideColors.length];
+                        const col = slideColor(i);
                         return (
                           <div key={i} style={{ background: 'rgba(8,18,38,0.6)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 10, padding: '24px 28px', borderTop: '2px solid ' + col }}>
                             <div style={{ display: 'flex', alignItems: 'baseline', gap: 12, marginBottom: 14 }}>
@@ -876,6 +1236,7 @@ const Analysis = () => {
                 {/* ── Dev Docs Tab ─────────────────────────────────────── */}
                 {activeTab === 'devdocs' && data.simplifier && (
                   <div style={{ animation: 'fadeIn 0.4s ease' }}>
+                    <DegradedNotice agent="Simplifier Agent" issues={degraded.simplifier} />
 
                     {/* Code Flow */}
                     <SectionLabel>Code Flow Walkthrough</SectionLabel>
@@ -978,4 +1339,48 @@ const SectionLabel = ({ children }: { children: React.ReactNode }) => (
   </div>
 );
 
+// Small secondary action in a section header (export, copy, …)
+const ToolButton = ({ onClick, disabled, children }: { onClick: () => void; disabled?: boolean; children: React.ReactNode }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    style={{ padding: '6px 14px', background: 'transparent', border: '1px solid rgba(255,255,255,0.08)', borderRadius: 6, color: 'rgba(232,244,255,0.35)', fontSize: 11, cursor: disabled ? 'default' : 'pointer', opacity: disabled ? 0.5 : 1, fontFamily: "'JetBrains Mono', monospace", transition: 'all 0.2s', marginBottom: 14 }}
+    onMouseEnter={(e) => { if (!disabled) { e.currentTarget.style.borderColor = 'rgba(136,181,252,0.3)'; e.currentTarget.style.color = '#88B5FC'; } }}
+    onMouseLeave={(e) => { e.currentTarget.style.borderColor = 'rgba(255,255,255,0.08)'; e.currentTarget.style.color = 'rgba(232,244,255,0.35)'; }}
+  >
+    {children}
+  </button>
+);
+
+const CancelButton = ({ onClick, style }: { onClick: () => void; style?: React.CSSProperties }) => (
+  <button
+    onClick={onClick}
+    style={{ padding: '6px 16px', background: 'transparent', border: '1px solid rgba(239,68,68,0.3)', borderRadius: 6, color: 'rgba(252,165,165,0.8)', fontSize: 11, fontWeight: 700, letterSpacing: 1.5, cursor: 'pointer', fontFamily: "'JetBrains Mono',monospace", transition: 'all 0.2s', ...style }}
+    onMouseEnter={(e) => { e.currentTarget.style.background = 'rgba(239,68,68,0.08)'; e.currentTarget.style.borderColor = 'rgba(239,68,68,0.5)'; }}
+    onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent'; e.currentTarget.style.borderColor = 'rgba(239,68,68,0.3)'; }}
+  >
+    ⊘ CANCEL RUN
+  </button>
+);
+
+// Shown at the top of a tab whose agent returned a malformed result. Whatever
+// passed validation is still rendered below it.
+const DegradedNotice = ({ agent, issues }: { agent: string; issues?: string[] }) => {
+  if (!issues?.length) return null;
+  return (
+    <div style={{ padding: '12px 16px', background: 'rgba(251,191,36,0.06)', border: '1px solid rgba(251,191,36,0.25)', borderRadius: 8, marginBottom: 20, fontSize: 12, lineHeight: 1.6 }}>
+      <div style={{ color: '#FBBF24', fontWeight: 700, marginBottom: 4 }}>⚠ {agent} result degraded</div>
+      <div style={{ color: 'rgba(232,244,255,0.4)' }}>
+        Part of this agent's output was malformed and has been left out.
+      </div>
+      <details style={{ marginTop: 6, color: 'rgba(232,244,255,0.35)' }}>
+        <summary style={{ cursor: 'pointer' }}>{issues.length} validation issue{issues.length === 1 ? '' : 's'}</summary>
+        <ul style={{ margin: '6px 0 0', paddingLeft: 18, fontFamily: "'JetBrains Mono',monospace", fontSize: 11 }}>
+          {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+        </ul>
+      </details>
+    </div>
+  );
+};
+
 export default Analysis;
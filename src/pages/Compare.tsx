@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ApiError, getReport } from '../lib/api';
+import { diffAnalyses, type ListDiff } from '../lib/analysis-diff';
+import { getRun } from '../lib/history-store';
+import { sameRepo } from '../lib/github';
+import type { AnalysisData } from '../lib/analysis-types';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+// One side of the comparison — a run from local history or a shared report
+interface Snapshot {
+  id: string;
+  repoName: string;
+  repoUrl: string;
+  createdAt: string;
+  data: AnalysisData;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MARKER = {
+  added:   { sign: '+', label: 'ADDED',   color: '#10B981' },
+  removed: { sign: '−', label: 'REMOVED', color: '#F87171' },
+  changed: { sign: '~', label: 'CHANGED', color: '#FBBF24' },
+} as const;
+
+const SEVERITY_COLOR: Record<string, string> = {
+  high: '#F87171', medium: '#FBBF24', low: '#38B2F6',
+};
+
+// Ids are tried against local history first, then as a share id on the backend
+async function loadSnapshot(id: string): Promise<Snapshot> {
+  const local = await getRun(id).catch(() => undefined);
+  if (local) {
+    return { id, repoName: local.repoMeta?.repoName || local.repoUrl, repoUrl: local.repoUrl, createdAt: local.createdAt, data: local.data };
+  }
+  const report = await getReport(id).catch((e) => {
+    throw e instanceof ApiError && e.kind === 'not-found' ? new Error(`Report ${id} not found or expired.`) : e;
+  });
+  return { id, repoName: report.repoName, repoUrl: report.repoUrl || report.repoName, createdAt: report.createdAt, data: report.data };
+}
+
+const formatDate = (iso: string) =>
+  iso ? new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' }) : 'unknown date';
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+const Compare = () => {
+  const { a, b } = useParams<{ a: string; b: string }>();
+  const navigate = useNavigate();
+
+  const [pair, setPair]       = useState<[Snapshot, Snapshot] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError]     = useState('');
+
+  useEffect(() => {
+    if (!a || !b) { setError('Two analyses are needed to compare.'); setLoading(false); return; }
+    setLoading(true);
+    Promise.all([loadSnapshot(a), loadSnapshot(b)])
+      .then((snaps) => {
+        // Always diff older → newer regardless of URL order
+        snaps.sort((x, y) => x.createdAt.localeCompare(y.createdAt));
+        setPair(snaps as [Snapshot, Snapshot]);
+        setLoading(false);
+      })
+      .catch((e) => { setError(e instanceof Error ? e.message : String(e)); setLoading(false); });
+  }, [a, b]);
+
+  if (loading) return (
+    <div style={{ minHeight: '100vh', background: '#020B18', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'rgba(232,244,255,0.4)', fontFamily: "'JetBrains Mono',monospace", fontSize: 12, letterSpacing: 3 }}>
+      LOADING ANALYSES...
+    </div>
+  );
+
+  if (error || !pair) return (
+    <div style={{ minHeight: '100vh', background: '#020B18', display: 'flex', alignItems: 'center', justifyContent: 'center', flexDirection: 'column', gap: 20, fontFamily: "'DM Sans',sans-serif", padding: 40, textAlign: 'center' }}>
+      <div style={{ fontSize: 40, color: '#F87171' }}>⊘</div>
+      <div style={{ color: 'rgba(232,244,255,0.7)', fontSize: 16 }}>{error || 'Nothing to compare.'}</div>
+      <button onClick={() => navigate('/history')} style={{ marginTop: 10, padding: '12px 28px', background: 'linear-gradient(135deg, #7E3FF2, #4F46E5)', border: 'none', borderRadius: 10, color: '#fff', fontWeight: 700, fontSize: 14, cursor: 'pointer' }}>
+        Back to History
+      </button>
+    </div>
+  );
+
+  const [before, after] = pair;
+  const diff = diffAnalyses(before.data, after.data);
+  const { complexity } = diff;
+  // Lower complexity is better
+  const deltaCol = complexity.delta === undefined || complexity.delta === 0 ? '#88B5FC' : complexity.delta < 0 ? '#10B981' : '#F87171';
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#020B18', color: '#E8F4FF', fontFamily: "'DM Sans', sans-serif", padding: '40px 20px' }}>
+      <div style={{ maxWidth: 900, margin: '0 auto' }}>
+
+        {/* Header */}
+        <header style={{ textAlign: 'center', marginBottom: 36 }}>
+          <h1
+            style={{ fontFamily: "'Orbitron', sans-serif", color: '#88B5FC', fontSize: 32, letterSpacing: 6, margin: '0 0 8px', cursor: 'pointer' }}
+            onClick={() => navigate('/')}
+          >
+            PAYSTREAM
+          </h1>
+          <p style={{ color: 'rgba(232,244,255,0.35)', fontSize: 13, margin: 0, fontFamily: "'JetBrains Mono',monospace" }}>Analysis Comparison</p>
+        </header>
+
+        {/* Before / after */}
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr auto 1fr', gap: 14, alignItems: 'center', marginBottom: 16 }}>
+          {[before, after].map((snap, i) => (
+            <div key={snap.id} style={{ gridColumn: i === 0 ? 1 : 3, gridRow: 1, background: 'rgba(8,18,38,0.6)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 10, padding: '16px 20px' }}>
+              <div style={{ fontSize: 10, color: 'rgba(136,181,252,0.5)', letterSpacing: 2, marginBottom: 6, fontFamily: "'JetBrains Mono',monospace" }}>{i === 0 ? 'BEFORE' : 'AFTER'}</div>
+              <div style={{ fontWeight: 700, fontSize: 15, color: 'rgba(232,244,255,0.9)' }}>{snap.repoName}</div>
+              <div style={{ fontSize: 11, color: 'rgba(232,244,255,0.3)', marginTop: 4, fontFamily: "'JetBrains Mono',monospace" }}>{formatDate(snap.createdAt)}</div>
+            </div>
+          ))}
+          <div style={{ gridColumn: 2, gridRow: 1, color: 'rgba(136,181,252,0.4)', fontSize: 20 }}>→</div>
+        </div>
+
+        {!sameRepo(before.repoUrl, after.repoUrl) && (
+          <div role="alert" style={{ padding: '12px 16px', background: 'rgba(251,191,36,0.06)', border: '1px solid rgba(251,191,36,0.25)', borderRadius: 8, color: 'rgba(253,224,71,0.85)', fontSize: 12, marginBottom: 16 }}>
+            ⚠ These analyses are of different repositories ({before.repoUrl} and {after.repoUrl}) — everything below will show as removed or added.
+          </div>
+        )}
+
+        {/* Complexity */}
+        <SectionLabel>Complexity Score</SectionLabel>
+        <div style={{ background: 'rgba(8,18,38,0.6)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 10, padding: 24, marginBottom: 28, display: 'flex', alignItems: 'center', gap: 24, flexWrap: 'wrap' }}>
+          <ScoreBlock score={complexity.before} label={complexity.labelBefore} />
+          <span style={{ color: 'rgba(136,181,252,0.4)', fontSize: 20 }}>→</span>
+          <ScoreBlock score={complexity.after} label={complexity.labelAfter} />
+          {complexity.delta !== undefined && (
+            <span style={{ marginLeft: 'auto', fontFamily: "'Orbitron', sans-serif", fontSize: 18, fontWeight: 700, color: deltaCol }}>
+              {complexity.delta > 0 ? '+' : ''}{complexity.delta}
+            </span>
+          )}
+        </div>
+
+        <DiffSection
+          title="Red Flags"
+          diff={diff.redFlags}
+          render={(f) => (
+            <>
+              <span style={{ fontSize: 10, padding: '2px 8px', background: (SEVERITY_COLOR[f.severity] || '#88B5FC') + '22', color: SEVERITY_COLOR[f.severity] || '#88B5FC', borderRadius: 4, fontWeight: 700, textTransform: 'uppercase', letterSpacing: 1 }}>{f.severity}</span>
+              <span style={{ flex: 1, color: 'rgba(232,244,255,0.75)' }}>{f.issue}</span>
+              <code style={{ fontSize: 11, color: 'rgba(232,244,255,0.25)' }}>{f.location}</code>
+            </>
+          )}
+        />
+
+        <DiffSection
+          title="Tech Stack"
+          diff={diff.techStack}
+          render={(t) => (
+            <>
+              <span style={{ flex: 1, fontWeight: 700, color: 'rgba(232,244,255,0.85)' }}>{t.name}</span>
+              {t.version && <span style={{ fontSize: 11, color: 'rgba(232,244,255,0.3)' }}>v{t.version}</span>}
+              <span style={{ fontSize: 11, color: 'rgba(232,244,255,0.3)' }}>{t.category}</span>
+            </>
+          )}
+        />
+
+        <DiffSection
+          title="Dependencies"
+          diff={diff.dependencies}
+          render={(d) => (
+            <>
+              <span style={{ flex: 1, fontWeight: 700, color: 'rgba(232,244,255,0.85)' }}>{d.name}</span>
+              <span style={{ fontSize: 11, color: SEVERITY_COLOR[d.risk] || 'rgba(232,244,255,0.3)' }}>{d.risk} risk</span>
+            </>
+          )}
+        />
+
+        <DiffSection
+          title="Tech Debt"
+          diff={diff.techDebt}
+          render={(d) => (
+            <>
+              <span style={{ flex: 1, color: 'rgba(232,244,255,0.75)' }}>{d.item}</span>
+              <span style={{ fontSize: 11, color: 'rgba(232,244,255,0.3)' }}>effort: {d.effort} · impact: {d.impact}</span>
+            </>
+          )}
+        />
+
+        <div style={{ display: 'flex', gap: 10, marginTop: 40 }}>
+          <button
+            onClick={() => navigate('/history')}
+            style={{ flex: 1, padding: '12px 0', background: 'transparent', color: '#88B5FC', border: '1px solid rgba(136,181,252,0.3)', borderRadius: 8, fontFamily: "'JetBrains Mono', monospace", fontWeight: 700, fontSize: 13, cursor: 'pointer', letterSpacing: 2 }}
+          >
+            BACK TO HISTORY
+          </button>
+        </div>
+      </div>
+
+      <style>{`
+        @import url('https://fonts.googleapis.com/css2?family=Orbitron:wght@400;700;900&family=DM+Sans:opsz,wght@9..40,300;9..40,400;9..40,500;9..40,600&family=JetBrains+Mono:wght@400;700&display=swap');
+        *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+      `}</style>
+    </div>
+  );
+};
+
+// ─── Small helper components ──────────────────────────────────────────────────
+
+const SectionLabel = ({ children }: { children: React.ReactNode }) => (
+  <div style={{ color: 'rgba(136,181,252,0.6)', fontSize: 10, fontWeight: 700, letterSpacing: 3, textTransform: 'uppercase', marginBottom: 14, marginTop: 4, fontFamily: "'JetBrains Mono',monospace" }}>
+    {children}
+  </div>
+);
+
+const ScoreBlock = ({ score, label }: { score?: number; label?: string }) => {
+  const col = score === undefined ? 'rgba(232,244,255,0.2)' : score <= 3 ? '#10B981' : score <= 6 ? '#FBBF24' : '#F87171';
+  return (
+    <div style={{ display: 'flex', alignItems: 'baseline', gap: 10 }}>
+      <span style={{ fontFamily: "'Orbitron', sans-serif", fontSize: 40, color: col, fontWeight: 700, lineHeight: 1 }}>{score ?? '—'}</span>
+      <span style={{ fontSize: 12, color: col }}>{label}</span>
+    </div>
+  );
+};
+
+const MarkerBadge = ({ kind }: { kind: keyof typeof MARKER }) => (
+  <span style={{ fontSize: 9, fontWeight: 700, letterSpacing: 1.5, padding: '2px 8px', borderRadius: 4, whiteSpace: 'nowrap', color: MARKER[kind].color, background: MARKER[kind].color + '1a', border: '1px solid ' + MARKER[kind].color + '44', fontFamily: "'JetBrains Mono',monospace" }}>
+    {MARKER[kind].sign} {MARKER[kind].label}
+  </span>
+);
+
+function DiffSection<T>({ title, diff, render }: { title: string; diff: ListDiff<T>; render: (item: T) => React.ReactNode }) {
+  const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: 12, padding: '12px 16px', background: 'rgba(8,18,38,0.6)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 8, fontSize: 13 };
+  const empty = !diff.added.length && !diff.removed.length && !diff.changed.length;
+
+  return (
+    <div style={{ marginBottom: 28 }}>
+      <SectionLabel>
+        {title} · <span style={{ color: MARKER.added.color }}>+{diff.added.length}</span>{' '}
+        <span style={{ color: MARKER.removed.color }}>−{diff.removed.length}</span>{' '}
+        <span style={{ color: MARKER.changed.color }}>~{diff.changed.length}</span>
+      </SectionLabel>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        {empty && (
+          <div style={{ ...rowStyle, color: 'rgba(232,244,255,0.3)' }}>No changes ({diff.unchanged} unchanged).</div>
+        )}
+        {diff.added.map((item, i) => (
+          <div key={'a' + i} style={{ ...rowStyle, borderLeft: '3px solid ' + MARKER.added.color }}><MarkerBadge kind="added" />{render(item)}</div>
+        ))}
+        {diff.removed.map((item, i) => (
+          <div key={'r' + i} style={{ ...rowStyle, borderLeft: '3px solid ' + MARKER.removed.color, opacity: 0.7 }}><MarkerBadge kind="removed" />{render(item)}</div>
+        ))}
+        {diff.changed.map((c, i) => (
+          <div key={'c' + i} style={{ ...rowStyle, borderLeft: '3px solid ' + MARKER.changed.color, flexDirection: 'column', alignItems: 'stretch' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}><MarkerBadge kind="changed" />{render(c.after)}</div>
+            <div style={{ fontSize: 11, color: 'rgba(232,244,255,0.35)', fontFamily: "'JetBrains Mono',monospace", paddingLeft: 4 }}>
+              {c.fields.map((f) => `${String(f)}: ${String(c.before[f] ?? '—')} → ${String(c.after[f] ?? '—')}`).join(' · ')}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default Compare;
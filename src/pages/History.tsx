@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { deleteRun, entryStatus, listRuns, type HistoryEntry, type HistoryStatus } from '../lib/history-store';
+import { sameRepo } from '../lib/github';
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+const History = () => {
+  const navigate = useNavigate();
+
+  const [runs, setRuns]       = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError]     = useState('');
+  const [query, setQuery]     = useState('');
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    listRuns()
+      .then((r) => { setRuns(r); setLoading(false); })
+      .catch((e) => { setError(e instanceof Error ? e.message : 'Could not load history.'); setLoading(false); });
+  }, []);
+
+  const remove = async (id: string) => {
+    if (confirmId !== id) { setConfirmId(id); return; }
+    setConfirmId(null);
+    try {
+      await deleteRun(id);
+      setRuns((prev) => prev.filter((r) => r.id !== id));
+      setCompareIds((prev) => prev.filter((c) => c !== id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not delete run.');
+    }
+  };
+
+  // Keep at most two selected; picking a third replaces the oldest pick
+  const toggleCompare = (id: string) =>
+    setCompareIds((prev) => prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id].slice(-2));
+
+  // Runs of two different repos diff to "everything removed, everything added"
+  const selectedUrls = runs.filter((r) => compareIds.includes(r.id)).map((r) => r.repoUrl);
+  const mixedRepos = selectedUrls.length === 2 && !sameRepo(selectedUrls[0], selectedUrls[1]);
+
+  const q = query.trim().toLowerCase();
+  const filtered = q
+    ? runs.filter((r) =>
+        (r.repoMeta?.repoName || '').toLowerCase().includes(q) ||
+        r.repoUrl.toLowerCase().includes(q) ||
+        (r.repoMeta?.languages || []).some((l) => l.toLowerCase().includes(q)))
+    : runs;
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#020B18', color: '#E8F4FF', fontFamily: "'DM Sans', sans-serif", padding: '40px 20px' }}>
+      <div style={{ maxWidth: 900, margin: '0 auto' }}>
+
+        {/* Header */}
+        <header style={{ textAlign: 'center', marginBottom: 40 }}>
+          <h1
+            style={{ fontFamily: "'Orbitron', sans-serif", color: '#88B5FC', fontSize: 32, letterSpacing: 6, margin: '0 0 8px', cursor: 'pointer' }}
+            onClick={() => navigate('/')}
+          >
+            PAYSTREAM
+          </h1>
+          <p style={{ color: 'rgba(232,244,255,0.35)', fontSize: 13, margin: 0, fontFamily: "'JetBrains Mono',monospace" }}>Analysis History · stored in this browser</p>
+        </header>
+
+        {/* Search + new */}
+        <div style={{ display: 'flex', gap: 10, marginBottom: 24 }}>
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by repo or language"
+            style={{ flex: 1, padding: '12px 16px', background: 'rgba(8,20,45,0.6)', border: '1px solid rgba(136,181,252,0.2)', borderRadius: 10, color: '#E8F4FF', fontFamily: "'JetBrains Mono', monospace", fontSize: 13, outline: 'none' }}
+          />
+          <button
+            onClick={() => navigate('/analyze')}
+            style={{ padding: '0 22px', background: 'linear-gradient(135deg, #7E3FF2 0%, #4F46E5 100%)', border: 'none', borderRadius: 10, color: '#fff', fontWeight: 700, fontSize: 13, cursor: 'pointer', whiteSpace: 'nowrap' }}
+          >
+            + New Analysis
+          </button>
+          <button
+            onClick={() => navigate('/ledger')}
+            style={{ padding: '0 18px', background: 'transparent', border: '1px solid rgba(136,181,252,0.25)', borderRadius: 10, color: '#88B5FC', fontWeight: 600, fontSize: 13, cursor: 'pointer', whiteSpace: 'nowrap' }}
+          >
+            ℏ Ledger
+          </button>
+        </div>
+
+        {error && (
+          <div style={{ padding: '14px 18px', background: 'rgba(239,68,68,0.06)', border: '1px solid rgba(239,68,68,0.25)', borderRadius: 12, color: 'rgba(252,165,165,0.9)', fontSize: 13, marginBottom: 24, display: 'flex', gap: 10 }}>
+            <span style={{ flexShrink: 0 }}>⚠</span>{error}
+          </div>
+        )}
+
+        {loading && (
+          <div style={{ textAlign: 'center', padding: '60px 0', color: 'rgba(232,244,255,0.3)', fontFamily: "'JetBrains Mono',monospace", fontSize: 12, letterSpacing: 3 }}>LOADING HISTORY...</div>
+        )}
+
+        {!loading && !error && filtered.length === 0 && (
+          <div style={{ textAlign: 'center', padding: '60px 0', color: 'rgba(232,244,255,0.25)', fontSize: 13 }}>
+            {runs.length === 0 ? 'No analyses yet. Your runs will appear here.' : 'No runs match your search.'}
+          </div>
+        )}
+
+        {/* Compare bar */}
+        {compareIds.length > 0 && (
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, padding: '12px 18px', marginBottom: 16, background: 'rgba(136,181,252,0.06)', border: '1px solid rgba(136,181,252,0.2)', borderRadius: 10, fontSize: 12, color: 'rgba(232,244,255,0.5)', fontFamily: "'JetBrains Mono',monospace" }}>
+            <span>
+              {compareIds.length === 1 ? 'Select one more run to compare' : '2 runs selected'}
+              {mixedRepos && <span style={{ color: '#FBBF24' }}> · ⚠ different repositories</span>}
+            </span>
+            <div style={{ display: 'flex', gap: 8 }}>
+              <RowButton color="#94A3B8" onClick={() => setCompareIds([])}>Clear</RowButton>
+              {compareIds.length === 2 && (
+                <RowButton color="#88B5FC" onClick={() => navigate('/compare/' + compareIds.map(encodeURIComponent).join('/'))}>Compare →</RowButton>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Runs */}
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+          {filtered.map((r) => {
+            const spent = r.agents.reduce((sum, a) => sum + (a.payment || 0), 0);
+            const score = r.data.insight?.complexityScore?.score;
+            const flags = r.data.insight?.redFlags?.length ?? 0;
+            return (
+              <div key={r.id} style={{ background: 'rgba(8,18,38,0.6)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 10, padding: '18px 22px', display: 'flex', alignItems: 'center', gap: 18, flexWrap: 'wrap' }}>
+                <div style={{ flex: 1, minWidth: 240 }}>
+                  <div style={{ fontWeight: 700, fontSize: 15, color: 'rgba(232,244,255,0.9)', marginBottom: 4 }}>
+                    {r.repoMeta?.repoName || r.repoUrl}
+                    <StatusTag status={entryStatus(r)} />
+                  </div>
+                  <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', alignItems: 'center', fontSize: 11, color: 'rgba(232,244,255,0.3)', fontFamily: "'JetBrains Mono',monospace" }}>
+                    <span>{new Date(r.createdAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                    {r.repoMeta && <span>· {r.repoMeta.fileCount} files</span>}
+                    {score !== undefined && <span>· complexity {score}/10</span>}
+                    {r.data.insight && <span>· {flags} red flag{flags === 1 ? '' : 's'}</span>}
+                  </div>
+                </div>
+                <div style={{ textAlign: 'right', fontFamily: "'JetBrains Mono',monospace", fontSize: 11 }}>
+                  <div style={{ color: '#ffaa00' }}>{spent.toFixed(3)} ℏ spent</div>
+                  {r.refund && <div style={{ color: 'rgba(52,211,153,0.6)', marginTop: 2 }}>{r.refund.amount.toFixed(3)} ℏ refunded</div>}
+                </div>
+                <div style={{ display: 'flex', gap: 8 }}>
+                  <RowButton color="#88B5FC" onClick={() => navigate('/analyze?history=' + encodeURIComponent(r.id))}>Reopen</RowButton>
+                  <RowButton color="#FBBF24" onClick={() => toggleCompare(r.id)}>
+                    {compareIds.includes(r.id) ? '✓ Compare' : 'Compare'}
+                  </RowButton>
+                  {r.shareId && (
+                    <RowButton color="#38B2F6" onClick={() => window.open('/report/' + r.shareId, '_blank')}>Report ↗</RowButton>
+                  )}
+                  <RowButton color="#F87171" onClick={() => remove(r.id)}>
+                    {confirmId === r.id ? 'Confirm?' : 'Delete'}
+                  </RowButton>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <style>{`
+        @import url('https://fonts.googleapis.com/css2?family=Orbitron:wght@400;700;900&family=DM+Sans:opsz,wght@9..40,300;9..40,400;9..40,500;9..40,600&family=JetBrains+Mono:wght@400;700&display=swap');
+        *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+        input[type="text"]:focus { box-shadow: 0 0 0 3px rgba(136,181,252,0.12); border-color: rgba(136,181,252,0.4) !important; }
+      `}</style>
+    </div>
+  );
+};
+
+// ─── Small helper components ──────────────────────────────────────────────────
+
+const STATUS_TAGS: Record<Exclude<HistoryStatus, 'complete'>, { label: string; color: string }> = {
+  partial:   { label: 'partial', color: '#FBBF24' },
+  cancelled: { label: 'cancelled', color: '#94A3B8' },
+  failed:    { label: 'failed', color: '#F87171' },
+};
+
+// Completed runs are the norm, so only the others are labelled
+const StatusTag = ({ status }: { status: HistoryStatus }) => {
+  if (status === 'complete') return null;
+  const { label, color } = STATUS_TAGS[status];
+  return (
+    <span style={{ marginLeft: 10, padding: '2px 8px', border: '1px solid ' + color + '44', borderRadius: 4, color, fontSize: 10, fontWeight: 600, letterSpacing: 1, verticalAlign: 'middle', fontFamily: "'JetBrains Mono',monospace", textTransform: 'uppercase' }}>
+      {label}
+    </span>
+  );
+};
+
+const RowButton = ({ color, onClick, children }: { color: string; onClick: () => void; children: React.ReactNode }) => (
+  <button
+    onClick={onClick}
+    style={{ padding: '7px 14px', background: 'transparent', border: '1px solid ' + color + '44', borderRadius: 7, color, fontSize: 12, fontWeight: 600, cursor: 'pointer', transition: 'all 0.2s', whiteSpace: 'nowrap' }}
+    onMouseEnter={(e) => { e.currentTarget.style.background = color + '14'; }}
+    onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent'; }}
+  >
+    {children}
+  </button>
+);
+
+export default History;
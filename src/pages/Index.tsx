@@ -2,6 +2,15 @@ import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import WalletButton from "../components/WalletButton";
+import ApiSettings from "../components/ApiSettings";
+import MermaidDiagram from "../components/MermaidDiagram";
+import { useAgentStream } from "../hooks/use-agent-stream";
+import { useWallet } from "../hooks/use-wallet";
+import { useHederaNetwork } from "../hooks/use-hedera-network";
+import type { AgentStreamEvent } from "../lib/agent-events";
+import { cancelRun, runTask } from "../lib/api";
+import { fundBudget, fundsOwnRun, type EscrowFunding } from "../lib/escrow";
+import { hashscanTxUrl, networkLabel } from "../lib/hedera-network";
 
 /* ─── Agent config ──────────────────────────────────────────── */
 const AGENT_MAP: Record<string, { color: string; rgb: string; icon: string; short: string }> = {
@@ -22,32 +31,10 @@ type Phase = "idle" | "running" | "complete";
 
 interface Step {
   agent: string; task: string; payment: number;
-  txId: string; status: "working" | "complete";
+  txId: string; status: "working" | "complete" | "cancelled";
 }
 
-/* ─── Mermaid renderer ──────────────────────────────────────── */
-const MermaidDiagram = ({ code }: { code: string }) => {
-  const ref = useRef<HTMLDivElement>(null);
-  useEffect(() => {
-    let cancelled = false;
-    import("mermaid").then((m) => {
-      m.default.initialize({
-        startOnLoad: false, theme: "dark",
-        themeVariables: { darkMode: true, background: "#020B18", primaryColor: "#7E3FF2", primaryTextColor: "#E8F4FF", lineColor: "#88B5FC" },
-      });
-      if (!cancelled && ref.current) {
-        m.default.render("ps-mermaid-" + Date.now(), code).then(({ svg }) => {
-          if (ref.current) ref.current.innerHTML = svg;
-        }).catch(() => {
-          if (ref.current) ref.current.innerHTML = `<pre style="color:#E8F4FF;font-size:13px;white-space:pre-wrap">${code}</pre>`;
-        });
-      }
-    });
-    return () => { cancelled = true; };
-  }, [code]);
-  return <div ref={ref} className="da2-mermaid" />;
-};
-
+/* ─── Mermaid blocks ────────────────────────────────────────── */
 const extractMermaid = (text: string) => {
   const blocks: string[] = [];
   const re = /```mermaid\n([\s\S]*?)```/g;
@@ -76,48 +63,103 @@ export default function Index() {
   const [refundAmount, setRefundAmount] = useState(0);
   const [refundTxId, setRefundTxId]   = useState("");
   const [errorMsg, setErrorMsg]       = useState("");
+  const { wallet, refreshBalance } = useWallet();
+  const [network] = useHederaNetwork();
+  const [funding, setFunding]         = useState(false);
   const [activeTab, setActiveTab]     = useState("report");
+  const [cancelling, setCancelling]   = useState(false);
   const feedRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (feedRef.current) feedRef.current.scrollTop = feedRef.current.scrollHeight;
   }, [steps]);
 
-  const deploy = () => {
-    if (phase !== "idle") return;
-    const taskToRun = task.trim() || "Research the top 3 AI and crypto projects announced this week";
-    setCurrentBudget(budget);
-    setSteps([]); setFinalReport(""); setRefundAmount(0);
-    setRefundTxId(""); setErrorMsg(""); setPhase("running"); setActiveTab("report");
-
-    const API_BASE = import.meta.env.VITE_API_URL || (import.meta.env.PROD ? 'https://paystream-backend-x8y9.onrender.com' : 'http://localhost:3001');
-    const url = `${API_BASE}/api/run?task=${encodeURIComponent(taskToRun)}&budget=${budget}`;
-    const es = new EventSource(url);
-
-    es.onmessage = (e) => {
-      const ev = JSON.parse(e.data);
-      if (ev.type === "step_start") {
-        setSteps((prev) => [...prev, { agent: ev.agent, task: ev.task, payment: 0, txId: "", status: "working" }]);
-      }
-      if (ev.type === "step_complete") {
+  const handleEvent = (ev: AgentStreamEvent) => {
+    switch (ev.type) {
+      case "step_start":
+        // A resumed stream may replay the start of a step we already track
+        setSteps((prev) => prev.some((s) => s.agent === ev.agent && s.task === ev.task) ? prev
+          : [...prev, { agent: ev.agent, task: ev.task, payment: 0, txId: "", status: "working" }]);
+        break;
+      case "step_complete":
         setSteps((prev) => prev.map((s) =>
           s.agent === ev.agent && s.status === "working"
             ? { ...s, payment: ev.payment, txId: ev.txId, status: "complete" } : s
         ));
         setCurrentBudget(ev.remainingBudget);
+        break;
+      case "report": setFinalReport(ev.text); break;
+      case "refund":
+        setRefundAmount(ev.amount); setRefundTxId(ev.txId); setPhase("complete");
+        if (wallet) refreshBalance();
+        break;
+      case "error":  setErrorMsg(ev.message); setPhase("idle"); break;
+    }
+  };
+
+  const stream = useAgentStream({
+    onEvent: handleEvent,
+    onConnectionError: () => {
+      // Keep the paid-for steps on screen rather than discarding the run
+      const hasProgress = steps.some((s) => s.status === "complete");
+      setErrorMsg(hasProgress
+        ? "Lost connection to the PayStream server. Showing the steps completed so far."
+        : "Could not connect to PayStream server. Please try again later.");
+      setPhase(hasProgress ? "complete" : "idle");
+    },
+  });
+
+  const deploy = async () => {
+    if (phase !== "idle" || funding) return;
+    const taskToRun = task.trim() || "Research the top 3 AI and crypto projects announced this week";
+
+    // A connected wallet escrows its own budget when it can; otherwise the
+    // run is unfunded and the server fronts the budget
+    let escrow: EscrowFunding | null = null;
+    if (wallet && fundsOwnRun(wallet)) {
+      setErrorMsg(""); setFunding(true);
+      try {
+        escrow = await fundBudget(wallet, budget);
+        refreshBalance();
+      } catch (e) {
+        setErrorMsg("Budget was not funded: " + (e instanceof Error ? e.message : String(e)));
+        return;
+      } finally {
+        setFunding(false);
       }
-      if (ev.type === "report")  { setFinalReport(ev.text); }
-      if (ev.type === "refund")  { setRefundAmount(ev.amount); setRefundTxId(ev.txId); setPhase("complete"); es.close(); }
-      if (ev.type === "error")   { setErrorMsg(ev.message); setPhase("idle"); es.close(); }
-    };
-
-    es.onerror = () => {
-      setErrorMsg("Could not connect to PayStream server. Please try again later.");
-      setPhase("idle"); es.close();
-    };
+    }
+
+    setCurrentBudget(budget);
+    setSteps([]); setFinalReport(""); setRefundAmount(0);
+    setRefundTxId(""); setErrorMsg(""); setPhase("running"); setActiveTab("report");
+
+    stream.start(runTask({ task: taskToRun, budget, escrow }));
+  };
+
+  // Stop the stream, then ask the server to halt the run and refund the rest.
+  // Completed steps stay on screen with whatever refund comes back.
+  const cancel = async () => {
+    const runId = stream.runId;
+    const hasProgress = steps.some((s) => s.status === "complete");
+    stream.cancel();
+    setSteps((prev) => prev.map((s) => s.status === "working" ? { ...s, status: "cancelled" } : s));
+    setPhase(hasProgress ? "complete" : "idle");
+    if (!hasProgress) setErrorMsg("Run cancelled.");
+    if (!runId) return;
+
+    setCancelling(true);
+    try {
+      const refund = await cancelRun(runId);
+      if (refund) { setRefundAmount(refund.amount); setRefundTxId(refund.txId); }
+    } catch (e) {
+      setErrorMsg("Run stopped, but the server did not confirm the cancellation: " + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setCancelling(false);
+    }
   };
 
   const reset = () => {
+    stream.reset();
     setPhase("idle"); setSteps([]); setFinalReport("");
     setRefundAmount(0); setRefundTxId(""); setErrorMsg(""); setCurrentBudget(budget);
   };
@@ -183,6 +225,7 @@ export default function Index() {
               <span className="da2-bu">HBAR</span>
             </motion.div>
           )}
+          <ApiSettings />
           <WalletButton />
         </div>
       </motion.nav>
@@ -244,15 +287,24 @@ export default function Index() {
 
                   <motion.button
                     onClick={deploy}
+                    disabled={funding}
                     className="da2-deploy-btn"
                     whileHover={{ scale: 1.02, boxShadow: '0 0 60px rgba(126,63,242,0.55)' }}
                     whileTap={{ scale: 0.97 }}
                   >
                     <span className="da2-deploy-icon">⬡</span>
-                    Deploy Agents
+                    {funding ? "Waiting for wallet signature…" : "Deploy Agents"}
                   </motion.button>
 
-                  <p className="da2-form-note">Runs on Hedera Testnet · No wallet setup required</p>
+                  <p className="da2-form-note">
+                    {wallet && fundsOwnRun(wallet)
+                      ? `Runs on ${networkLabel(network)} · Budget escrowed from ${wallet.accountId()} · unspent HBAR refunded there`
+                      : wallet?.id === "mock"
+                      ? `Runs on ${networkLabel(network)} · Mock wallet · nothing is escrowed · the server fronts the budget`
+                      : wallet
+                      ? `Runs on ${networkLabel(network)} · No escrow account is configured · the server fronts the budget`
+                      : `Runs on ${networkLabel(network)} · No wallet setup required`}
+                  </p>
                 </motion.div>
               )}
 
@@ -294,10 +346,11 @@ export default function Index() {
                             {status === "idle"     && <span style={{ color: 'rgba(232,244,255,0.22)' }}>waiting</span>}
                             {status === "working"  && <span style={{ color: cfg.color, fontFamily: "'JetBrains Mono',monospace", fontSize: 10 }}>working...</span>}
                             {status === "complete" && <span style={{ color: '#10B981', fontFamily: "'JetBrains Mono',monospace", fontSize: 10 }}>✓ {step?.payment} HBAR</span>}
+                            {status === "cancelled" && <span style={{ color: 'rgba(232,244,255,0.35)', fontFamily: "'JetBrains Mono',monospace", fontSize: 10 }}>⊘ cancelled</span>}
                           </span>
                         </div>
                         {status === "complete" && step?.txId && (
-                          <a href={`https://hashscan.io/testnet/transaction/${step.txId}`} target="_blank" rel="noopener noreferrer" className="da2-tx-link">↗</a>
+                          <a href={hashscanTxUrl(step.txId)} target="_blank" rel="noopener noreferrer" className="da2-tx-link">↗</a>
                         )}
                         {status === "complete" && (
                           <motion.div
@@ -330,6 +383,19 @@ export default function Index() {
                     </div>
                   </div>
 
+                  {phase === "running" && (
+                    <motion.button
+                      onClick={cancel}
+                      className="da2-cancel-btn"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                    >
+                      ⊘ Cancel Run
+                    </motion.button>
+                  )}
+
+                  {cancelling && <p className="da2-form-note" style={{ marginTop: 12 }}>Requesting refund…</p>}
+
                   {phase === "complete" && (
                     <motion.button
                       onClick={reset}
@@ -413,7 +479,7 @@ export default function Index() {
                 <span className="da2-feed-title">LIVE ACTIVITY FEED</span>
                 <div className="da2-feed-indicator">
                   <span className="da2-live-dot" style={{ width: 5, height: 5 }} />
-                  <span>streaming</span>
+                  <span>{stream.status === "reconnecting" ? `reconnecting (attempt ${stream.attempt})` : "streaming"}</span>
                 </div>
               </div>
               <div ref={feedRef} className="da2-feed">
@@ -444,7 +510,7 @@ export default function Index() {
                             <>
                               <span className="da2-feed-paid">{step.payment} HBAR</span>
                               {step.txId && (
-                                <a href={`https://hashscan.io/testnet/transaction/${step.txId}`} target="_blank" rel="noopener noreferrer" className="da2-feed-tx">↗ tx</a>
+                                <a href={hashscanTxUrl(step.txId)} target="_blank" rel="noopener noreferrer" className="da2-feed-tx">↗ tx</a>
                               )}
                             </>
                           )}
@@ -478,7 +544,7 @@ export default function Index() {
                     <div>
                       <div className="da2-refund-amount">REFUNDED {refundAmount.toFixed(3)} HBAR</div>
                       {refundTxId && (
-                        <a href={`https://hashscan.io/testnet/transaction/${refundTxId}`} target="_blank" rel="noopener noreferrer" className="da2-refund-link">
+                        <a href={hashscanTxUrl(refundTxId)} target="_blank" rel="noopener noreferrer" className="da2-refund-link">
                           view refund on HashScan ↗
                         </a>
                       )}
@@ -527,7 +593,7 @@ export default function Index() {
                         mermaidBlocks.map((code, i) => (
                           <div key={i} className="da2-mermaid-wrap">
                             <div className="da2-mermaid-label">Diagram {i + 1}</div>
-                            <MermaidDiagram code={code} />
+                            <MermaidDiagram chart={code} theme="index" exportName={"paystream-diagram-" + (i + 1)} />
                           </div>
                         ))
                       )}
@@ -563,9 +629,9 @@ export default function Index() {
                         <span style={{ color: cfg.color }}>{cfg.icon}</span>
                         <span className="da2-c-name">{cfg.short}</span>
                         <span className="da2-c-task">{step.task}</span>
-                        <span className="da2-c-paid">{step.payment} HBAR</span>
+                        <span className="da2-c-paid">{step.status === "cancelled" ? "cancelled" : `${step.payment} HBAR`}</span>
                         {step.txId && (
-                          <a href={`https://hashscan.io/testnet/transaction/${step.txId}`} target="_blank" rel="noopener noreferrer" className="da2-feed-tx">↗</a>
+                          <a href={hashscanTxUrl(step.txId)} target="_blank" rel="noopener noreferrer" className="da2-feed-tx">↗</a>
                         )}
                       </motion.div>
                     );
@@ -790,6 +856,14 @@ export default function Index() {
           border-radius: 10px; cursor: pointer; transition: all 0.2s; letter-spacing: 0.3px;
         }
         .da2-reset-btn:hover { background: rgba(136,181,252,0.07); color: #88B5FC; }
+        .da2-cancel-btn {
+          margin-top: 16px; width: 100%; padding: 12px;
+          background: transparent;
+          border: 1px solid rgba(239,68,68,0.25); color: rgba(252,165,165,0.75);
+          font-family: 'DM Sans', sans-serif; font-size: 13px; font-weight: 600;
+          border-radius: 10px; cursor: pointer; transition: all 0.2s; letter-spacing: 0.3px;
+        }
+        .da2-cancel-btn:hover { background: rgba(239,68,68,0.06); border-color: rgba(239,68,68,0.45); }
 
         /* ── Main ── */
         .da2-main { flex: 1; overflow-y: auto; padding: 36px; position: relative; z-index: 1; }
@@ -955,7 +1029,6 @@ export default function Index() {
           color: rgba(136,181,252,0.45); letter-spacing: 2.5px;
           text-transform: uppercase; margin-bottom: 16px;
         }
-        .da2-mermaid svg { max-width: 100%; height: auto; }
         .da2-empty { padding: 44px; text-align: center; color: rgba(232,244,255,0.22); font-size: 13px; }
 
         /* Completed */
@@ -2,6 +2,8 @@ import { Suspense, lazy, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, useScroll, useTransform, Variants } from 'framer-motion';
 import WalletButton from '../components/WalletButton';
+import { useHederaNetwork } from '../hooks/use-hedera-network';
+import { networkLabel } from '../lib/hedera-network';
 
 const AICore = lazy(() => import('../components/AICore'));
 const NeuralBackground = lazy(() => import('../components/NeuralBackground'));
@@ -73,6 +75,7 @@ const TECH = [
 /* ── component ───────────────────────────────────────────────── */
 export default function Landing() {
   const navigate = useNavigate();
+  const [network] = useHederaNetwork();
   const heroRef = useRef<HTMLDivElement>(null);
   const { scrollYProgress } = useScroll({ target: heroRef, offset: ['start start', 'end start'] });
   const coreY   = useTransform(scrollYProgress, [0, 1], [0, 140]);
@@ -579,7 +582,7 @@ export default function Landing() {
             Understand Your Codebase<br /><em>in Minutes.</em>
           </h2>
           <p style={{ color: 'rgba(232,244,255,0.4)', lineHeight: 1.75, marginBottom: 40, fontSize: 15 }}>
-            Runs on Hedera Testnet. No wallet setup. No configuration.<br />
+            Runs on {networkLabel(network)}. No wallet setup. No configuration.<br />
             Just paste a repo and watch the agents work.
           </p>
           <motion.button
@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { listRuns } from '../lib/history-store';
+import { downloadLedger, ledgerRows, ledgerTotals, receiptFromRun, type LedgerEntryType, type Receipt } from '../lib/receipt';
+import { hashscanTxUrl, isHederaNetwork } from '../lib/hedera-network';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const TYPE_COLOR: Record<LedgerEntryType, string> = {
+  escrow: '#FBBF24',
+  'agent payment': '#88B5FC',
+  refund: '#34D399',
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+const signed = (n: number) => (n > 0 ? '+' : n < 0 ? '−' : '') + Math.abs(n).toFixed(3);
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+const Ledger = () => {
+  const navigate = useNavigate();
+
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [loading, setLoading]   = useState(true);
+  const [error, setError]       = useState('');
+
+  useEffect(() => {
+    listRuns()
+      .then((runs) => { setReceipts(runs.map(receiptFromRun)); setLoading(false); })
+      .catch((e) => { setError(e instanceof Error ? e.message : 'Could not load history.'); setLoading(false); });
+  }, []);
+
+  const rows   = ledgerRows(receipts);
+  const totals = ledgerTotals(rows);
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#020B18', color: '#E8F4FF', fontFamily: "'DM Sans', sans-serif", padding: '40px 20px' }}>
+      <div style={{ maxWidth: 1000, margin: '0 auto' }}>
+
+        {/* Header */}
+        <header style={{ textAlign: 'center', marginBottom: 40 }}>
+          <h1
+            style={{ fontFamily: "'Orbitron', sans-serif", color: '#88B5FC', fontSize: 32, letterSpacing: 6, margin: '0 0 8px', cursor: 'pointer' }}
+            onClick={() => navigate('/')}
+          >
+            PAYSTREAM
+          </h1>
+          <p style={{ color: 'rgba(232,244,255,0.35)', fontSize: 13, margin: 0, fontFamily: "'JetBrains Mono',monospace" }}>Spend Ledger · every analysis run in this browser</p>
+        </header>
+
+        {/* Totals + export */}
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 10, marginBottom: 16 }}>
+          {[
+            { label: 'Escrowed', value: totals.escrowed, color: '#FBBF24' },
+            { label: 'Paid to agents', value: totals.paidToAgents, color: '#88B5FC' },
+            { label: 'Refunded', value: totals.refunded, color: '#34D399' },
+            { label: 'Net wallet spend', value: totals.netWalletSpend, color: '#E8F4FF' },
+          ].map((t) => (
+            <div key={t.label} style={{ background: 'rgba(8,18,38,0.6)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 10, padding: '14px 18px' }}>
+              <div style={{ fontSize: 9, letterSpacing: 2, textTransform: 'uppercase', color: 'rgba(232,244,255,0.3)', fontFamily: "'JetBrains Mono',monospace", marginBottom: 6 }}>{t.label}</div>
+              <div style={{ fontFamily: "'Orbitron', sans-serif", fontSize: 18, fontWeight: 700, color: t.color }}>
+                {t.value.toFixed(3)} <span style={{ fontSize: 10, opacity: 0.6 }}>ℏ</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 10, marginBottom: 24 }}>
+          <button
+            onClick={() => navigate('/history')}
+            style={{ padding: '7px 14px', background: 'transparent', border: '1px solid rgba(136,181,252,0.15)', borderRadius: 7, color: 'rgba(136,181,252,0.6)', fontSize: 12, cursor: 'pointer' }}
+          >
+            ← History
+          </button>
+          <div style={{ display: 'flex', gap: 8 }}>
+            {(['csv', 'json'] as const).map((format) => (
+              <button
+                key={format}
+                disabled={!receipts.length}
+                onClick={() => downloadLedger(receipts, format)}
+                style={{ padding: '7px 14px', background: 'transparent', border: '1px solid rgba(136,181,252,0.3)', borderRadius: 7, color: '#88B5FC', fontSize: 12, fontWeight: 600, cursor: receipts.length ? 'pointer' : 'default', opacity: receipts.length ? 1 : 0.4 }}
+              >
+                ⇩ Export {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div style={{ padding: '14px 18px', background: 'rgba(239,68,68,0.06)', border: '1px solid rgba(239,68,68,0.25)', borderRadius: 12, color: 'rgba(252,165,165,0.9)', fontSize: 13, marginBottom: 24, display: 'flex', gap: 10 }}>
+            <span style={{ flexShrink: 0 }}>⚠</span>{error}
+          </div>
+        )}
+
+        {loading && (
+          <div style={{ textAlign: 'center', padding: '60px 0', color: 'rgba(232,244,255,0.3)', fontFamily: "'JetBrains Mono',monospace", fontSize: 12, letterSpacing: 3 }}>LOADING LEDGER...</div>
+        )}
+
+        {!loading && !error && rows.length === 0 && (
+          <div style={{ textAlign: 'center', padding: '60px 0', color: 'rgba(232,244,255,0.25)', fontSize: 13 }}>
+            No payments yet. Completed analyses will appear here.
+          </div>
+        )}
+
+        {/* Ledger rows */}
+        {rows.length > 0 && (
+          <div style={{ background: 'rgba(8,18,38,0.6)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 10, padding: '8px 20px', fontFamily: "'JetBrains Mono',monospace", fontSize: 11 }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1.2fr 1.4fr 1fr 1.2fr 0.8fr 0.8fr 1.6fr', gap: 12, padding: '10px 0', color: 'rgba(232,244,255,0.25)', fontSize: 9, letterSpacing: 2, textTransform: 'uppercase' }}>
+              <span>Date</span><span>Repository</span><span>Type</span><span>Counterparty</span>
+              <span style={{ textAlign: 'right' }}>Amount</span><span style={{ textAlign: 'right' }}>Wallet Δ</span><span>Transaction</span>
+            </div>
+            {[...rows].reverse().map((r, i) => (
+              <div key={r.txId || r.runId + i} style={{ display: 'grid', gridTemplateColumns: '1.2fr 1.4fr 1fr 1.2fr 0.8fr 0.8fr 1.6fr', gap: 12, padding: '9px 0', borderTop: '1px solid rgba(255,255,255,0.04)', alignItems: 'baseline' }}>
+                <span style={{ color: 'rgba(232,244,255,0.4)' }}>{formatDate(r.date)}</span>
+                <span style={{ color: 'rgba(232,244,255,0.75)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{r.repo}</span>
+                <span style={{ color: TYPE_COLOR[r.type] }}>{r.type}</span>
+                <span style={{ color: 'rgba(232,244,255,0.5)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{r.counterparty}</span>
+                <span style={{ textAlign: 'right' }}>{r.amount.toFixed(3)}</span>
+                <span style={{ textAlign: 'right', color: r.walletDelta < 0 ? '#F87171' : r.walletDelta > 0 ? '#34D399' : 'rgba(232,244,255,0.2)' }}>{signed(r.walletDelta)}</span>
+                {r.txId ? (
+                  <a
+                    href={isHederaNetwork(r.network) ? hashscanTxUrl(r.txId, r.network) : hashscanTxUrl(r.txId)}
+                    target="_blank" rel="noopener noreferrer"
+                    style={{ color: '#38B2F6', textDecoration: 'none', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                  >
+                    {r.txId} ↗
+                  </a>
+                ) : <span style={{ color: 'rgba(232,244,255,0.2)' }}>—</span>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <style>{`
+        @import url('https://fonts.googleapis.com/css2?family=Orbitron:wght@400;700;900&family=DM+Sans:opsz,wght@9..40,300;9..40,400;9..40,500;9..40,600&family=JetBrains+Mono:wght@400;700&display=swap');
+        *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+      `}</style>
+    </div>
+  );
+};
+
+export default Ledger;
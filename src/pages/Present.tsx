@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { getReport } from '../lib/api';
+import { slideColor } from '../lib/ceo-deck';
+import { useSlideSync } from '../hooks/use-slide-sync';
+import type { CEOSlide } from '../lib/analysis-types';
+
+// ─── Presenter mode ───────────────────────────────────────────────────────────
+//
+// /report/:shareId/present                  → audience view, one slide at a time
+// /report/:shareId/present?view=presenter   → notes, timer, current + next slide
+//
+// Both windows share the current slide over a BroadcastChannel, so either can
+// drive the deck.
+
+const formatElapsed = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+};
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+const Present = () => {
+  const { shareId } = useParams<{ shareId: string }>();
+  const navigate    = useNavigate();
+  const [searchParams] = useSearchParams();
+  const isPresenter = searchParams.get('view') === 'presenter';
+
+  const [slides, setSlides]   = useState<CEOSlide[]>([]);
+  const [repoName, setRepoName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError]     = useState('');
+
+  const { index, goTo, next, prev } = useSlideSync('paystream-present-' + shareId, slides.length);
+
+  useEffect(() => {
+    if (!shareId) { setError('No report ID provided.'); setLoading(false); return; }
+    getReport(shareId)
+      .then((d) => {
+        const deck = d.data.analogy?.ceoSlides || [];
+        if (!deck.length) throw new Error('This report has no CEO deck.');
+        setSlides(deck);
+        setRepoName(d.repoName || '');
+        setLoading(false);
+      })
+      .catch((e) => { setError(e.message); setLoading(false); });
+  }, [shareId]);
+
+  const openPresenter = () => {
+    window.open(window.location.pathname + '?view=presenter', 'paystream-presenter-' + shareId, 'width=1100,height=720');
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen?.();
+  };
+
+  // Keyboard navigation — same keys as most slide tools
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (['ArrowRight', 'ArrowDown', 'PageDown', ' '].includes(e.key)) { e.preventDefault(); next(); }
+      else if (['ArrowLeft', 'ArrowUp', 'PageUp'].includes(e.key)) { e.preventDefault(); prev(); }
+      else if (e.key === 'Home') goTo(0);
+      else if (e.key === 'End') goTo(slides.length - 1);
+      else if (e.key === 'f' && !isPresenter) toggleFullscreen();
+      else if (e.key === 'p' && !isPresenter) openPresenter();
+      else if (e.key === 'Escape' && !isPresenter && !document.fullscreenElement) navigate('/report/' + shareId);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  if (loading || error) return (
+    <div style={{ minHeight: '100vh', background: '#020B18', display: 'flex', alignItems: 'center', justifyContent: 'center', flexDirection: 'column', gap: 20, fontFamily: "'DM Sans',sans-serif", padding: 40, textAlign: 'center' }}>
+      <div style={{ color: error ? 'rgba(232,244,255,0.7)' : 'rgba(232,244,255,0.4)', fontFamily: "'JetBrains Mono',monospace", fontSize: error ? 15 : 12, letterSpacing: error ? 0 : 3 }}>
+        {error || 'LOADING DECK...'}
+      </div>
+      {error && (
+        <button onClick={() => navigate('/report/' + shareId)} style={{ padding: '12px 28px', background: 'linear-gradient(135deg, #7E3FF2, #4F46E5)', border: 'none', borderRadius: 10, color: '#fff', fontWeight: 700, fontSize: 14, cursor: 'pointer' }}>
+          Back to Report
+        </button>
+      )}
+    </div>
+  );
+
+  const slide = slides[index];
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#020B18', color: '#E8F4FF', fontFamily: "'DM Sans', sans-serif" }}>
+      {isPresenter
+        ? <PresenterView slides={slides} index={index} repoName={repoName} onPrev={prev} onNext={next} />
+        : (
+          <div style={{ height: '100vh', display: 'flex', flexDirection: 'column' }}>
+            <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '4vh 6vw' }}>
+              <SlideView slide={slide} index={index} large />
+            </div>
+            {/* Control strip — fades in on hover */}
+            <div className="ps-present-bar" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '12px 24px', fontFamily: "'JetBrains Mono',monospace", fontSize: 11, color: 'rgba(232,244,255,0.35)' }}>
+              <span>{repoName} · {index + 1} / {slides.length}</span>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <BarButton onClick={prev}>←</BarButton>
+                <BarButton onClick={next}>→</BarButton>
+                <BarButton onClick={openPresenter}>presenter (p)</BarButton>
+                <BarButton onClick={toggleFullscreen}>fullscreen (f)</BarButton>
+                <BarButton onClick={() => navigate('/report/' + shareId)}>exit</BarButton>
+              </div>
+            </div>
+          </div>
+        )}
+
+      <style>{`
+        @import url('https://fonts.googleapis.com/css2?family=Orbitron:wght@400;700;900&family=DM+Sans:opsz,wght@9..40,400;9..40,500;9..40,600;9..40,700&family=JetBrains+Mono:wght@400;700&display=swap');
+        *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+        body { background: #020B18; }
+        .ps-present-bar { opacity: 0.15; transition: opacity 0.3s; }
+        .ps-present-bar:hover { opacity: 1; }
+        @keyframes fadeIn { from { opacity: 0; transform: translateY(6px); } to { opacity: 1; transform: translateY(0); } }
+      `}</style>
+    </div>
+  );
+};
+
+// ─── Presenter window ─────────────────────────────────────────────────────────
+
+const PresenterView = ({ slides, index, repoName, onPrev, onNext }: {
+  slides: CEOSlide[]; index: number; repoName: string; onPrev: () => void; onNext: () => void;
+}) => {
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [pausedAt, setPausedAt]   = useState<number | null>(null);
+  const [now, setNow]             = useState(Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(id);
+  }, []);
+
+  const elapsed = (pausedAt ?? now) - startedAt;
+  const togglePause = () => {
+    if (pausedAt === null) { setPausedAt(Date.now()); return; }
+    setStartedAt((s) => s + (Date.now() - pausedAt));
+    setPausedAt(null);
+  };
+  const resetTimer = () => { setStartedAt(Date.now()); setPausedAt(null); };
+
+  const slide = slides[index];
+  const nextSlide = slides[index + 1];
+
+  return (
+    <div style={{ height: '100vh', display: 'grid', gridTemplateColumns: '3fr 2fr', gridTemplateRows: 'auto 1fr', gap: 20, padding: 24 }}>
+      {/* Top bar: position + timer */}
+      <div style={{ gridColumn: '1 / 3', display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontFamily: "'JetBrains Mono',monospace", fontSize: 12, color: 'rgba(232,244,255,0.4)' }}>
+        <span>{repoName} · slide {index + 1} of {slides.length}</span>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+          <span style={{ fontFamily: "'Orbitron',sans-serif", fontSize: 28, fontWeight: 700, color: pausedAt === null ? '#88B5FC' : 'rgba(136,181,252,0.4)' }}>{formatElapsed(elapsed)}</span>
+          <BarButton onClick={togglePause}>{pausedAt === null ? 'pause' : 'resume'}</BarButton>
+          <BarButton onClick={resetTimer}>reset</BarButton>
+          <BarButton onClick={onPrev}>←</BarButton>
+          <BarButton onClick={onNext}>→</BarButton>
+        </div>
+      </div>
+
+      {/* Current slide + notes */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 16, minHeight: 0 }}>
+        <SlideView slide={slide} index={index} />
+        <div style={{ flex: 1, overflowY: 'auto', padding: '18px 22px', background: 'rgba(8,18,38,0.7)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 12 }}>
+          <div style={{ fontSize: 10, color: slideColor(index), letterSpacing: 2, fontWeight: 700, marginBottom: 10, fontFamily: "'JetBrains Mono',monospace" }}>SPEAKER NOTES</div>
+          <div style={{ fontSize: 20, lineHeight: 1.6, color: 'rgba(232,244,255,0.85)' }}>{slide.speakerNote || '—'}</div>
+        </div>
+      </div>
+
+      {/* Up next */}
+      <div>
+        <div style={{ fontSize: 10, color: 'rgba(136,181,252,0.5)', letterSpacing: 2, marginBottom: 10, fontFamily: "'JetBrains Mono',monospace" }}>UP NEXT</div>
+        {nextSlide
+          ? <div style={{ opacity: 0.75 }}><SlideView slide={nextSlide} index={index + 1} /></div>
+          : <div style={{ color: 'rgba(232,244,255,0.25)', fontSize: 13 }}>End of deck.</div>}
+      </div>
+    </div>
+  );
+};
+
+// ─── Small helper components ──────────────────────────────────────────────────
+
+const SlideView = ({ slide, index, large }: { slide: CEOSlide; index: number; large?: boolean }) => {
+  const col = slideColor(index);
+  return (
+    <div style={{ width: '100%', maxWidth: large ? 1280 : undefined, aspectRatio: '16 / 9', background: 'rgba(8,18,38,0.8)', border: '1px solid rgba(255,255,255,0.06)', borderTop: `${large ? 6 : 3}px solid ${col}`, borderRadius: large ? 18 : 10, padding: large ? '5% 6%' : '4% 5%', display: 'flex', flexDirection: 'column', overflow: 'hidden', animation: 'fadeIn 0.3s ease' }}>
+      <span style={{ fontFamily: "'Orbitron',sans-serif", fontSize: large ? 16 : 10, color: col, letterSpacing: 3, marginBottom: large ? 18 : 8 }}>SLIDE {slide.slideNumber || index + 1}</span>
+      <h2 style={{ fontFamily: "'Orbitron',sans-serif", fontSize: large ? 'clamp(28px, 3.6vw, 52px)' : 18, fontWeight: 700, color: '#E8F4FF', margin: `0 0 ${large ? 28 : 10}px`, lineHeight: 1.2 }}>{slide.title}</h2>
+      <p style={{ color: 'rgba(232,244,255,0.7)', fontSize: large ? 'clamp(16px, 1.7vw, 26px)' : 12, lineHeight: 1.7, whiteSpace: 'pre-wrap' }}>{slide.content}</p>
+    </div>
+  );
+};
+
+const BarButton = ({ onClick, children }: { onClick: () => void; children: React.ReactNode }) => (
+  <button
+    onClick={onClick}
+    style={{ padding: '5px 12px', background: 'transparent', border: '1px solid rgba(136,181,252,0.2)', borderRadius: 6, color: 'rgba(136,181,252,0.7)', fontSize: 11, cursor: 'pointer', fontFamily: "'JetBrains Mono',monospace" }}
+  >
+    {children}
+  </button>
+);
+
+export default Present;
@@ -1,38 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import AuditTrailPanel from '../components/AuditTrailPanel';
+import MermaidDiagram from '../components/MermaidDiagram';
+import { getReport } from '../lib/api';
+import type { ReportData } from '../lib/analysis-types';
+import { exportDeckToPptx, slideColor } from '../lib/ceo-deck';
+import { fileStem } from '../lib/download';
 
-// ─── Types (mirrors Analysis.tsx) ─────────────────────────────────────────────
-
-interface CEOSlide    { slideNumber: number; title: string; content: string; speakerNote: string }
-interface TechAnalogy { tech: string; analogy: string; what: string }
-interface RedFlag     { severity: string; issue: string; location: string; suggestion: string }
-interface TechItem    { name: string; version?: string; role: string; category: string }
-
-interface ReportData {
-  repoName: string;
-  repoUrl:  string;
-  meta:     { fileCount: number; languages: string[] };
-  createdAt: string;
-  data: {
-    codeReader?: {
-      techStack: TechItem[];
-      architectureMap: { description: string };
-    };
-    analogy?: {
-      techAnalogies: TechAnalogy[];
-      ceoSlides: CEOSlide[];
-    };
-    insight?: {
-      complexityScore: { score: number; label: string; reasoning: string };
-      redFlags: RedFlag[];
-      scalability: { canHandle10x: boolean; bottleneck: string; assessment: string };
-      rebuildSuggestion: string;
-    };
-    simplifier?: {
-      codeFlow: string;
-    };
-  };
-}
+// ─── Constants ────────────────────────────────────────────────────────────────
 
 const SEVERITY_COLOR: Record<string, string> = {
   high: '#F87171', medium: '#FBBF24', low: '#38B2F6',
@@ -44,8 +19,6 @@ const CATEGORY_COLOR: Record<string, string> = {
   testing: '#34D399', tooling: '#A78BFA', auth: '#F59E0B', payments: '#10B981',
 };
 
-const SLIDE_COLORS = ['#8B5CF6', '#38B2F6', '#FBBF24', '#10B981', '#F472B6'];
-
 // ─── Component ────────────────────────────────────────────────────────────────
 
 const ShareReport = () => {
@@ -56,15 +29,15 @@ const ShareReport = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError]     = useState('');
   const [copied, setCopied]   = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [deckError, setDeckError] = useState('');
+  const deckErrorTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(deckErrorTimer.current), []);
 
   useEffect(() => {
     if (!shareId) { setError('No report ID provided.'); setLoading(false); return; }
-    const API_BASE = import.meta.env.VITE_API_URL || (import.meta.env.PROD ? 'https://paystream-backend-x8y9.onrender.com' : 'http://localhost:3001');
-    fetch(API_BASE + '/api/report/' + shareId)
-      .then((r) => {
-        if (!r.ok) throw new Error(r.status === 404 ? 'Report not found or expired.' : 'Failed to load report.');
-        return r.json();
-      })
+    getReport(shareId)
       .then((d) => { setReport(d); setLoading(false); })
       .catch((e) => { setError(e.message); setLoading(false); });
   }, [shareId]);
@@ -75,6 +48,21 @@ const ShareReport = () => {
     setTimeout(() => setCopied(false), 2500);
   };
 
+  const exportDeck = async () => {
+    if (!report?.data.analogy) return;
+    setExporting(true);
+    clearTimeout(deckErrorTimer.current);
+    setDeckError('');
+    try {
+      await exportDeckToPptx(report.data.analogy.ceoSlides, report.repoName);
+    } catch (e) {
+      setDeckError('Could not export the deck: ' + (e instanceof Error ? e.message : String(e)));
+      deckErrorTimer.current = setTimeout(() => setDeckError(''), 5000);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const formattedDate = report?.createdAt
     ? new Date(report.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
     : '';
@@ -195,10 +183,28 @@ const ShareReport = () => {
         {/* ── CEO Deck ── */}
         {data.analogy?.ceoSlides?.length ? (
           <section style={{ marginBottom: 56 }}>
-            <SectionHeader label="CEO DECK" subtitle="5-slide executive summary" />
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 12 }}>
+              <SectionHeader label="CEO DECK" subtitle="5-slide executive summary" />
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                {deckError && <span role="alert" style={{ color: '#F87171', fontSize: 10, maxWidth: 320, fontFamily: "'JetBrains Mono',monospace" }}>{deckError}</span>}
+                <button
+                  onClick={() => navigate('/report/' + shareId + '/present')}
+                  style={{ padding: '7px 16px', background: 'rgba(136,181,252,0.08)', border: '1px solid rgba(136,181,252,0.25)', borderRadius: 8, color: '#88B5FC', fontSize: 12, fontWeight: 600, cursor: 'pointer', whiteSpace: 'nowrap' }}
+                >
+                  ▶ Present
+                </button>
+                <button
+                  onClick={exportDeck}
+                  disabled={exporting}
+                  style={{ padding: '7px 16px', background: 'rgba(136,181,252,0.08)', border: '1px solid rgba(136,181,252,0.25)', borderRadius: 8, color: '#88B5FC', fontSize: 12, fontWeight: 600, cursor: exporting ? 'wait' : 'pointer', whiteSpace: 'nowrap' }}
+                >
+                  {exporting ? 'Exporting…' : '⇩ Download .pptx'}
+                </button>
+              </div>
+            </div>
             <div style={{ display: 'flex', flexDirection: 'column', gap: 18 }}>
               {data.analogy.ceoSlides.map((slide, i) => {
-                const col = SLIDE_COLORS[i % SLIDE_COLORS.length];
+                const col = slideColor(i);
                 return (
                   <div key={i} style={{ background: 'rgba(8,18,38,0.7)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 14, padding: '28px 32px', borderLeft: `3px solid ${col}` }}>
                     <div style={{ display: 'flex', alignItems: 'baseline', gap: 14, marginBottom: 16 }}>
@@ -258,16 +264,30 @@ const ShareReport = () => {
           </section>
         ) : null}
 
-        {/* ── Architecture Overview (text only) ── */}
+        {/* ── Architecture Overview ── */}
         {data.codeReader?.architectureMap?.description && (
           <section style={{ marginBottom: 56 }}>
             <SectionHeader label="ARCHITECTURE OVERVIEW" subtitle="How the system fits together" />
+            {data.codeReader.architectureMap.mermaid && (
+              <div style={{ border: '1px solid rgba(255,255,255,0.06)', borderRadius: 12, overflow: 'hidden', marginBottom: 16 }}>
+                {/* Anyone can publish a report, so its diagram renders in strict mode */}
+                <MermaidDiagram chart={data.codeReader.architectureMap.mermaid} exportName={fileStem(repoName) + '-architecture'} />
+              </div>
+            )}
             <div style={{ padding: '24px 28px', background: 'rgba(8,18,38,0.7)', border: '1px solid rgba(255,255,255,0.06)', borderLeft: '3px solid #8B5CF6', borderRadius: 12 }}>
               <p style={{ color: 'rgba(232,244,255,0.6)', fontSize: 14, margin: 0, lineHeight: 1.85 }}>{data.codeReader.architectureMap.description}</p>
             </div>
           </section>
         )}
 
+        {/* ── Audit trail ── */}
+        {report.topicId && (
+          <section style={{ marginBottom: 56 }}>
+            <SectionHeader label="AUDIT TRAIL" subtitle="Every step of this run, as logged on Hedera" />
+            <AuditTrailPanel topicId={report.topicId} />
+          </section>
+        )}
+
         {/* ── CTA footer ── */}
         <div style={{ textAlign: 'center', padding: '40px 0 0', borderTop: '1px solid rgba(255,255,255,0.05)' }}>
           <div style={{ fontSize: 10, color: 'rgba(136,181,252,0.3)', letterSpacing: 4, textTransform: 'uppercase', marginBottom: 16, fontFamily: "'JetBrains Mono',monospace" }}>
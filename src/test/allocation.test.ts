@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { ALLOCATION_PRESETS, DEFAULT_ALLOCATION, allocationParam, allocationTotal, plannedSpend, rebalance } from "@/lib/allocation";
+
+describe("budget allocation", () => {
+  it("presets all total 100", () => {
+    for (const preset of ALLOCATION_PRESETS) expect(allocationTotal(preset.split)).toBe(100);
+  });
+
+  it("rebalances the other agents proportionally", () => {
+    const next = rebalance({ codeReader: 20, simplifier: 20, analogy: 20, insight: 40 }, "insight", 70);
+    expect(next).toEqual({ codeReader: 10, simplifier: 10, analogy: 10, insight: 70 });
+  });
+
+  it("keeps the total at 100 when shares don't divide evenly", () => {
+    const next = rebalance(DEFAULT_ALLOCATION, "codeReader", 35);
+    expect(next.codeReader).toBe(35);
+    expect(allocationTotal(next)).toBe(100);
+  });
+
+  it("splits evenly when every other agent is at zero", () => {
+    const next = rebalance({ codeReader: 100, simplifier: 0, analogy: 0, insight: 0 }, "codeReader", 40);
+    expect(allocationTotal(next)).toBe(100);
+    expect(next.simplifier + next.analogy + next.insight).toBe(60);
+  });
+
+  it("plans spend in HBAR and serialises for the query string", () => {
+    expect(plannedSpend(DEFAULT_ALLOCATION, 2).insight).toBe(0.5);
+    expect(allocationParam(DEFAULT_ALLOCATION)).toBe("codeReader:25,simplifier:25,analogy:25,insight:25");
+  });
+});
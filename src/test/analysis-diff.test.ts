@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { diffAnalyses } from "@/lib/analysis-diff";
+import type { AnalysisData } from "@/lib/analysis-types";
+
+const insight = (score: number, redFlags: { severity: string; issue: string; location: string }[]) => ({
+  complexityScore: { score, label: "", reasoning: "" },
+  redFlags: redFlags.map((f) => ({ ...f, suggestion: "" })),
+  scalability: { canHandle10x: true, bottleneck: "", assessment: "" },
+  techDebt: [],
+  rebuildSuggestion: "",
+});
+
+describe("diffAnalyses", () => {
+  it("reports complexity delta and added, removed and changed red flags", () => {
+    const before: AnalysisData = {
+      insight: insight(7, [
+        { severity: "high", issue: "SQL injection", location: "api/db.ts" },
+        { severity: "low", issue: "Unused exports", location: "src/" },
+      ]),
+    };
+    const after: AnalysisData = {
+      insight: insight(5, [
+        { severity: "medium", issue: "SQL  Injection", location: "api/db.ts" },
+        { severity: "high", issue: "No rate limiting", location: "api/server.ts" },
+      ]),
+    };
+
+    const diff = diffAnalyses(before, after);
+    expect(diff.complexity.delta).toBe(-2);
+    expect(diff.redFlags.added.map((f) => f.issue)).toEqual(["No rate limiting"]);
+    expect(diff.redFlags.removed.map((f) => f.issue)).toEqual(["Unused exports"]);
+    expect(diff.redFlags.changed).toHaveLength(1);
+    expect(diff.redFlags.changed[0].fields).toEqual(["severity"]);
+  });
+
+  it("tracks dependency risk changes", () => {
+    const deps = (risk: string) => ({
+      codeReader: {
+        architectureMap: { mermaid: "", description: "" },
+        techStack: [],
+        modules: [],
+        dependencies: [{ name: "lodash", purpose: "utils", risk }],
+      },
+    });
+    const diff = diffAnalyses(deps("low"), deps("high"));
+    expect(diff.dependencies.changed[0].before.risk).toBe("low");
+    expect(diff.dependencies.changed[0].after.risk).toBe("high");
+    expect(diff.complexity.delta).toBeUndefined();
+  });
+});
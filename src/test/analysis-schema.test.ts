@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { parseAgentResult, parseAnalysisData } from "@/lib/analysis-schema";
+
+const insight = {
+  complexityScore: { score: 6, label: "Moderate", reasoning: "Layered but readable" },
+  redFlags: [{ severity: "high", issue: "Secrets in repo", location: "src/config.ts:12", suggestion: "Use env vars" }],
+  scalability: { canHandle10x: false, bottleneck: "Single DB", assessment: "Needs caching" },
+  techDebt: [{ item: "No tests", effort: "medium", impact: "high" }],
+  rebuildSuggestion: "Split the monolith",
+};
+
+describe("parseAgentResult", () => {
+  it("accepts a well-formed result", () => {
+    const { data, issues } = parseAgentResult("insight", insight);
+    expect(issues).toEqual([]);
+    expect(data.redFlags).toHaveLength(1);
+  });
+
+  it("salvages a partial result and reports what was wrong", () => {
+    const { data, issues } = parseAgentResult("insight", {
+      ...insight,
+      redFlags: [insight.redFlags[0], { severity: "low" }],
+      scalability: undefined,
+    });
+    expect(issues.length).toBeGreaterThan(0);
+    expect(data.redFlags).toHaveLength(1);
+    expect(data.scalability.canHandle10x).toBe(false);
+    expect(data.complexityScore.label).toBe("Moderate");
+  });
+
+  it("turns a non-object into an empty but renderable result", () => {
+    const { data, issues } = parseAgentResult("analogy", "sorry, I can't do that");
+    expect(issues.length).toBeGreaterThan(0);
+    expect(data.ceoSlides).toEqual([]);
+    expect(data.techAnalogies).toEqual([]);
+  });
+});
+
+describe("parseAnalysisData", () => {
+  it("ignores unknown keys and collects issues per agent", () => {
+    const { data, issues } = parseAnalysisData({ insight, simplifier: { codeFlow: 1 }, bogus: {} });
+    expect(Object.keys(data).sort()).toEqual(["insight", "simplifier"]);
+    expect(issues.insight).toBeUndefined();
+    expect(issues.simplifier?.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ApiError, analyzeRepo, cancelRun, defaultApiBase, getApiBase, getReport, runTask, setApiBaseOverride } from "@/lib/api";
+
+const respond = (status: number, body = "") =>
+  vi.fn().mockResolvedValue(new Response(body || null, { status }));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  setApiBaseOverride(null);
+});
+
+describe("api base URL", () => {
+  it("uses the override until it is reset", () => {
+    setApiBaseOverride("https://staging.example.com/");
+    expect(getApiBase()).toBe("https://staging.example.com");
+    expect(analyzeRepo({ repo: "https://github.com/a/b", budget: 2, runId: "r1" }))
+      .toBe("https://staging.example.com/api/analyze?repo=https%3A%2F%2Fgithub.com%2Fa%2Fb&budget=2&runId=r1");
+
+    setApiBaseOverride(null);
+    expect(getApiBase()).toBe(defaultApiBase());
+  });
+
+  it("adds the escrow transfer and refund account to stream URLs", () => {
+    const url = analyzeRepo({ repo: "r", budget: 1, escrow: { txId: "0.0.7@1.2", accountId: "0.0.7", amount: 1 } });
+    expect(url).toContain("&fundingTxId=0.0.7%401.2&refundAccount=0.0.7");
+  });
+
+  it("mints a fresh run id for every stream", () => {
+    const a = new URL(runTask({ task: "t", budget: 1 })).searchParams.get("runId");
+    const b = new URL(runTask({ task: "t", budget: 1 })).searchParams.get("runId");
+    expect(a).toBeTruthy();
+    expect(a).not.toBe(b);
+  });
+});
+
+describe("cancelRun", () => {
+  it("posts to the run's cancel endpoint and returns the refund", async () => {
+    const fetch = respond(200, JSON.stringify({ type: "refund", amount: 0.4, txId: "0.0.9@5.6" }));
+    vi.stubGlobal("fetch", fetch);
+    await expect(cancelRun("run/1")).resolves.toMatchObject({ type: "refund", amount: 0.4, txId: "0.0.9@5.6" });
+    expect(fetch).toHaveBeenCalledWith(getApiBase() + "/api/runs/run%2F1/cancel", expect.objectContaining({ method: "POST" }));
+  });
+
+  it("returns null when there was nothing left to refund", async () => {
+    vi.stubGlobal("fetch", respond(200));
+    await expect(cancelRun("r1")).resolves.toBeNull();
+  });
+
+  it("reports a run that already finished", async () => {
+    vi.stubGlobal("fetch", respond(404));
+    await expect(cancelRun("r1")).rejects.toMatchObject({ kind: "not-found", message: "Run not found or already finished." });
+  });
+});
+
+describe("api errors", () => {
+  it("maps 404 to not-found with the endpoint's message", async () => {
+    vi.stubGlobal("fetch", respond(404));
+    await expect(getReport("abc")).rejects.toMatchObject({ kind: "not-found", status: 404, message: "Report not found or expired." });
+  });
+
+  it("maps 5xx to server", async () => {
+    vi.stubGlobal("fetch", respond(502));
+    await expect(getReport("abc")).rejects.toMatchObject({ kind: "server", status: 502 });
+  });
+
+  it("surfaces the backend's message for other 4xx", async () => {
+    vi.stubGlobal("fetch", respond(409, JSON.stringify({ error: "Run already finished." })));
+    await expect(cancelRun("r1")).rejects.toMatchObject({ kind: "client", message: "Run already finished." });
+  });
+
+  it("maps a 200 that is not JSON to server", async () => {
+    vi.stubGlobal("fetch", respond(200, "<!doctype html><title>Maintenance</title>"));
+    await expect(getReport("abc")).rejects.toMatchObject({ name: "ApiError", kind: "server", message: "The PayStream server sent an unexpected response." });
+  });
+
+  it("maps a failed fetch to network", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("Failed to fetch")));
+    const err = await getReport("abc").catch((e) => e);
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err.kind).toBe("network");
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { matchNodesToModules, nodeIdFromElement, tokenize } from "@/lib/architecture-links";
+
+const modules = [
+  { path: "src/api/" },
+  { path: "src/services/authService.ts" },
+  { path: "src/components/" },
+  { path: "src/db/schema.ts" },
+];
+
+describe("tokenize", () => {
+  it("splits paths and camelCase, drops noise words and plural s", () => {
+    expect([...tokenize("src/services/authService.ts")]).toEqual(["service", "auth"]);
+  });
+});
+
+describe("matchNodesToModules", () => {
+  it("links nodes to the module sharing the most words", () => {
+    const links = matchNodesToModules(
+      [
+        { id: "API", label: "API Server" },
+        { id: "Auth", label: "Auth Service" },
+        { id: "UI", label: "React Components" },
+        { id: "DB", label: "Database Schema" },
+      ],
+      modules,
+    );
+    expect(links).toEqual({ API: 0, Auth: 1, UI: 2, DB: 3 });
+  });
+
+  it("leaves nodes with nothing in common unlinked", () => {
+    expect(matchNodesToModules([{ id: "User", label: "End User" }], modules)).toEqual({});
+  });
+});
+
+describe("nodeIdFromElement", () => {
+  it("prefers data-id and falls back to the flowchart element id", () => {
+    const tagged = document.createElementNS("http://www.w3.org/2000/svg", "g");
+    tagged.setAttribute("data-id", "API");
+    tagged.id = "mermaid-1-flowchart-Other-0";
+    expect(nodeIdFromElement(tagged)).toBe("API");
+
+    const untagged = document.createElementNS("http://www.w3.org/2000/svg", "g");
+    untagged.id = "mermaid-1-flowchart-Auth_Svc-3";
+    expect(nodeIdFromElement(untagged)).toBe("Auth_Svc");
+    expect(nodeIdFromElement(document.createElementNS("http://www.w3.org/2000/svg", "g"))).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_ALLOCATION } from "@/lib/allocation";
+import { MAX_BUDGET, MIN_BUDGET, checkBudget, estimateCost } from "@/lib/cost-estimate";
+import { parseGitHubRepo } from "@/lib/github";
+
+describe("cost estimate", () => {
+  it("grows with repo size and recommends a slider step with headroom", () => {
+    const small = estimateCost({ fileCount: 20, languages: ["TypeScript"] });
+    const large = estimateCost({ fileCount: 1200, languages: ["TypeScript", "Go", "Python"] });
+    expect(large.total).toBeGreaterThan(small.total);
+    expect(small.recommended).toBeGreaterThanOrEqual(MIN_BUDGET);
+    expect(small.recommended).toBeLessThan(large.recommended);
+    expect(large.recommended % 0.5).toBe(0);
+    expect(large.recommended).toBeGreaterThanOrEqual(large.total);
+  });
+
+  it("caps the recommendation at the maximum budget", () => {
+    const huge = estimateCost({ fileCount: 1_000_000, languages: Array(20).fill("x") });
+    expect(huge.recommended).toBeLessThanOrEqual(MAX_BUDGET);
+  });
+
+  it("warns when the budget or one agent's share is too small", () => {
+    const estimate = estimateCost({ fileCount: 800, languages: ["TypeScript"] });
+    expect(checkBudget(estimate, 0.5, DEFAULT_ALLOCATION).shortTotal).toBe(true);
+    expect(checkBudget(estimate, estimate.recommended, DEFAULT_ALLOCATION)).toEqual({ shortAgents: [], shortTotal: false });
+
+    const starved = { codeReader: 5, simplifier: 30, analogy: 30, insight: 35 };
+    expect(checkBudget(estimate, estimate.recommended, starved).shortAgents).toEqual(["codeReader"]);
+  });
+});
+
+describe("parseGitHubRepo", () => {
+  it("accepts repo URLs with or without scheme, .git or sub-paths", () => {
+    expect(parseGitHubRepo("https://github.com/facebook/react")).toEqual({ owner: "facebook", repo: "react" });
+    expect(parseGitHubRepo("github.com/vercel/next.js.git")).toEqual({ owner: "vercel", repo: "next.js" });
+    expect(parseGitHubRepo("https://github.com/a/b/tree/main/src")).toEqual({ owner: "a", repo: "b" });
+    expect(parseGitHubRepo("https://gitlab.com/a/b")).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { diagramFileName, serializeSvg } from "@/lib/diagram-export";
+
+const renderedSvg = () => {
+  const holder = document.createElement("div");
+  holder.innerHTML =
+    '<svg id="mermaid-diagram-1" viewBox="-8 -8 320.5 140" style="max-width: 100%; transform: scale(2)">' +
+    '<g class="node"><foreignObject><div xmlns="http://www.w3.org/1999/xhtml">API &amp; Server</div></foreignObject></g></svg>';
+  return holder.querySelector("svg") as SVGSVGElement;
+};
+
+describe("serializeSvg", () => {
+  it("sizes the document from the viewBox and drops page-side styling", () => {
+    const { markup, width, height } = serializeSvg(renderedSvg(), "#020B18");
+    expect([width, height]).toEqual([320.5, 140]);
+    expect(markup.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg')).toBe(true);
+    expect(markup).toContain('xmlns="http://www.w3.org/2000/svg"');
+    expect(markup).toContain('width="320.5"');
+    expect(markup).toContain('style="background-color: #020B18"');
+    expect(markup).not.toContain("max-width");
+    expect(markup).toContain("API &amp; Server");
+  });
+
+  it("leaves the page's SVG untouched", () => {
+    const svg = renderedSvg();
+    serializeSvg(svg);
+    expect(svg.getAttribute("style")).toContain("max-width");
+    expect(svg.hasAttribute("width")).toBe(false);
+  });
+});
+
+describe("diagramFileName", () => {
+  it("names each format", () => {
+    expect(diagramFileName("acme-architecture", "svg")).toBe("acme-architecture.svg");
+    expect(diagramFileName("acme-architecture", "png")).toBe("acme-architecture.png");
+    expect(diagramFileName("acme-architecture", "png@2x")).toBe("acme-architecture@2x.png");
+    expect(diagramFileName("acme-architecture", "mmd")).toBe("acme-architecture.mmd");
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Hbar, Transaction, TransferTransaction } from "@hashgraph/sdk";
+import { fundBudget, fundsOwnRun } from "@/lib/escrow";
+import { WalletError, type WalletAdapter } from "@/lib/wallet";
+import { createMockWallet } from "@/lib/wallet-mock";
+
+const ESCROW = "0.0.5005";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+const connected = async (wallet = createMockWallet({ accountId: "0.0.42" })) => {
+  await wallet.connect();
+  return wallet;
+};
+
+/** A connected "real" wallet that declines to sign, handing over what it was asked to sign. */
+const declining = async (signed: Uint8Array[] = []): Promise<WalletAdapter> => ({
+  ...(await connected()),
+  id: "hashpack",
+  signTransaction: async (bytes) => {
+    signed.push(bytes);
+    throw new WalletError("rejected", "User declined.");
+  },
+});
+
+describe("fundBudget", () => {
+  it("needs a connected wallet", async () => {
+    vi.stubEnv("VITE_ESCROW_ACCOUNT_ID", ESCROW);
+    await expect(fundBudget(createMockWallet(), 1)).rejects.toMatchObject({ code: "not-connected" });
+  });
+
+  it("needs an escrow account for a real wallet", async () => {
+    vi.stubEnv("VITE_ESCROW_ACCOUNT_ID", "");
+    await expect(fundBudget(await declining(), 1)).rejects.toMatchObject({ code: "not-configured" });
+  });
+
+  it("has the wallet sign a transfer of the budget into escrow, and stops if it declines", async () => {
+    vi.stubEnv("VITE_ESCROW_ACCOUNT_ID", ESCROW);
+    const signed: Uint8Array[] = [];
+    await expect(fundBudget(await declining(signed), 2.5)).rejects.toMatchObject({ code: "rejected" });
+
+    expect(signed).toHaveLength(1);
+    const transfer = Transaction.fromBytes(signed[0]);
+    expect(transfer).toBeInstanceOf(TransferTransaction);
+    const moves = (transfer as TransferTransaction).hbarTransfers;
+    expect(moves.get("0.0.42")?.toString()).toBe(new Hbar(-2.5).toString());
+    expect(moves.get(ESCROW)?.toString()).toBe(new Hbar(2.5).toString());
+    expect(transfer.transactionId?.accountId?.toString()).toBe("0.0.42");
+    expect(transfer.transactionMemo).toBe("PayStream budget escrow");
+  });
+
+  it("reports nothing funded for the mock wallet, escrow account or not", async () => {
+    const wallet = await connected();
+    const sign = vi.spyOn(wallet, "signTransaction");
+    vi.stubEnv("VITE_ESCROW_ACCOUNT_ID", "");
+    await expect(fundBudget(wallet, 1)).resolves.toBeNull();
+    vi.stubEnv("VITE_ESCROW_ACCOUNT_ID", ESCROW);
+    await expect(fundBudget(wallet, 1)).resolves.toBeNull();
+    expect(sign).not.toHaveBeenCalled();
+  });
+});
+
+describe("fundsOwnRun", () => {
+  it("only escrows with a real wallet and a configured escrow account", async () => {
+    vi.stubEnv("VITE_ESCROW_ACCOUNT_ID", ESCROW);
+    expect(fundsOwnRun(await connected())).toBe(false);
+    expect(fundsOwnRun(await declining())).toBe(true);
+
+    vi.stubEnv("VITE_ESCROW_ACCOUNT_ID", "");
+    expect(fundsOwnRun(await declining())).toBe(false);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { parseGitHubRepo, sameRepo } from "@/lib/github";
+
+describe("parseGitHubRepo", () => {
+  it("reads owner and repo from the usual URL shapes", () => {
+    expect(parseGitHubRepo("https://github.com/vercel/next.js")).toEqual({ owner: "vercel", repo: "next.js" });
+    expect(parseGitHubRepo("github.com/a/b.git")).toEqual({ owner: "a", repo: "b" });
+    expect(parseGitHubRepo("https://gitlab.com/a/b")).toBeNull();
+  });
+});
+
+describe("sameRepo", () => {
+  it("ignores case, .git, www and trailing paths", () => {
+    expect(sameRepo("https://github.com/Acme/API", "https://www.github.com/acme/api.git")).toBe(true);
+    expect(sameRepo("https://github.com/acme/api/tree/main", "github.com/acme/api")).toBe(true);
+  });
+
+  it("tells different repos apart", () => {
+    expect(sameRepo("https://github.com/acme/api", "https://github.com/acme/web")).toBe(false);
+    expect(sameRepo("https://github.com/acme/api", "https://github.com/other/api")).toBe(false);
+  });
+});
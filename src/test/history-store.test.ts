@@ -0,0 +1,48 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, beforeEach } from "vitest";
+import { deleteRun, entryStatus, getRun, listRuns, saveRun, type HistoryEntry } from "@/lib/history-store";
+
+const entry = (id: string, createdAt: string, extra: Partial<HistoryEntry> = {}): HistoryEntry => ({
+  id,
+  repoUrl: "https://github.com/a/" + id,
+  repoMeta: null,
+  data: {},
+  agents: [],
+  budget: 1,
+  refund: null,
+  createdAt,
+  ...extra,
+});
+
+beforeEach(async () => {
+  for (const run of await listRuns()) await deleteRun(run.id);
+});
+
+describe("history store", () => {
+  it("upserts by id", async () => {
+    await saveRun(entry("a", "2025-01-01T00:00:00Z"));
+    await saveRun(entry("a", "2025-01-01T00:00:00Z", { shareId: "s1", status: "partial" }));
+    expect(await listRuns()).toHaveLength(1);
+    expect(await getRun("a")).toMatchObject({ shareId: "s1", status: "partial" });
+  });
+
+  it("lists runs newest first", async () => {
+    await saveRun(entry("old", "2025-01-01T00:00:00Z"));
+    await saveRun(entry("new", "2025-03-01T00:00:00Z"));
+    await saveRun(entry("mid", "2025-02-01T00:00:00Z"));
+    expect((await listRuns()).map((r) => r.id)).toEqual(["new", "mid", "old"]);
+  });
+
+  it("deletes runs and misses unknown ids", async () => {
+    await saveRun(entry("a", "2025-01-01T00:00:00Z"));
+    await deleteRun("a");
+    expect(await getRun("a")).toBeUndefined();
+  });
+});
+
+describe("entryStatus", () => {
+  it("treats records without a status as complete", () => {
+    expect(entryStatus(entry("a", "2025-01-01T00:00:00Z"))).toBe("complete");
+    expect(entryStatus(entry("b", "2025-01-01T00:00:00Z", { status: "cancelled" }))).toBe("cancelled");
+  });
+});
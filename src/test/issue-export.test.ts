@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { issuesToCsv, jiraPriority, toIssue } from "@/lib/issue-export";
+
+describe("issue export", () => {
+  it("builds labelled issue bodies for red flags and tech debt", () => {
+    const flag = toIssue({ kind: "redFlag", item: { severity: "high", issue: "Secrets in repo", location: ".env", suggestion: "Rotate keys" } }, "acme/app");
+    expect(flag.labels).toEqual(["paystream", "red-flag", "severity:high"]);
+    expect(flag.priority).toBe("High");
+    expect(flag.body).toContain("**Location:** `.env`");
+    expect(flag.body).toContain("### Suggested fix\nRotate keys");
+
+    const debt = toIssue({ kind: "techDebt", item: { item: "No tests", effort: "high", impact: "medium" } }, "acme/app");
+    expect(debt.title).toBe("Tech debt: No tests");
+    expect(debt.labels).toContain("effort:high");
+  });
+
+  it("maps severities and impact onto Jira's priorities", () => {
+    expect(["critical", "High", "medium", "low", "info", "", undefined, "severe"].map(jiraPriority))
+      .toEqual(["Highest", "High", "Medium", "Low", "Low", "Medium", "Medium", "Medium"]);
+  });
+
+  it("quotes CSV cells so multi-line bodies and commas survive import", () => {
+    const csv = issuesToCsv([{ title: 'Say "hi", twice', body: "line 1\nline 2", labels: ["a"], priority: "Low" }]);
+    expect(csv).toBe('"Title","Body","Priority","Labels"\r\n"Say ""hi"", twice","line 1\nline 2","Low","a"\r\n');
+  });
+
+  it("writes one Labels column per label", () => {
+    const csv = issuesToCsv([
+      { title: "A", body: "", labels: ["x", "y", "z"], priority: "High" },
+      { title: "B", body: "", labels: ["x"], priority: "Low" },
+    ]);
+    expect(csv.split("\r\n").slice(0, 3)).toEqual([
+      '"Title","Body","Priority","Labels","Labels","Labels"',
+      '"A","","High","x","y","z"',
+      '"B","","Low","x","",""',
+    ]);
+  });
+
+  it("keeps cells from being read as spreadsheet formulas", () => {
+    const csv = issuesToCsv([{ title: '=HYPERLINK("https://x.example")', body: "-2+3", labels: ["@team", "+1"], priority: "Low" }]);
+    expect(csv.split("\r\n")[1]).toBe('"\'=HYPERLINK(""https://x.example"")","\'-2+3","Low","\'@team","+1"');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import mermaid from "mermaid";
+import { describeParseError, repairChart, type RepairRule } from "@/lib/mermaid-repair";
+
+beforeAll(() => {
+  mermaid.initialize({ startOnLoad: false });
+});
+
+const parses = async (chart: string) => {
+  try {
+    await mermaid.parse(chart);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Broken charts in the shapes models actually produce them, and the rules
+// that should fix each one
+const BROKEN: { name: string; chart: string; rules: RepairRule[] }[] = [
+  { name: "parentheses in a box label", chart: "graph TD\n  A[API Server (Express)] --> B[DB]", rules: ["label"] },
+  { name: "parentheses in a round label", chart: "graph LR\n  A(Worker (cron)) --> B", rules: ["label"] },
+  { name: "braces in a decision label", chart: "graph TD\n  A{Valid {schema}?} -->|yes| B", rules: ["label"] },
+  { name: "parentheses in a circle label", chart: "graph TD\n  A((Start (v2))) --> B", rules: ["label"] },
+  { name: "parentheses in a cylinder label", chart: "graph TD\n  A --> DB[(Postgres (primary))]", rules: ["label"] },
+  { name: "pipe in a label", chart: "graph TD\n  A[stdin | parser] --> B", rules: ["label"] },
+  { name: "quotes in a label", chart: 'graph TD\n  A[He said "hi"] --> B', rules: ["label"] },
+  { name: "quotes inside a quoted label", chart: 'graph TD\n  A["Config "prod" only"] --> B', rules: ["label"] },
+  { name: "parentheses in an edge label", chart: "graph TD\n  A -->|calls fetch()| B", rules: ["edge-label"] },
+  { name: "parentheses in a subgraph title", chart: "graph TD\n  subgraph Backend (Node)\n    A --> B\n  end", rules: ["label"] },
+  { name: "end as a target node", chart: "graph TD\n  A --> end", rules: ["reserved-id"] },
+  { name: "end as a source node", chart: "graph TD\n  start --> A\n  end[Done] --> B", rules: ["reserved-id"] },
+  { name: "single-dash arrow", chart: "graph TD\n  A -> B\n  B -> C", rules: ["arrow", "arrow"] },
+  { name: "fat arrow", chart: "graph TD\n  A => B", rules: ["arrow"] },
+  { name: "unicode arrow", chart: "graph TD\n  A → B", rules: ["arrow"] },
+  { name: "spaced arrow", chart: "graph TD\n  A -- > B", rules: ["arrow"] },
+  { name: "HTML-escaped arrow", chart: "graph TD\n  A --&gt; B", rules: ["arrow"] },
+  { name: "reversed arrow", chart: "graph TD\n  A <-- B", rules: ["arrow"] },
+  { name: "short bidirectional arrow", chart: "graph TD\n  A <-> B", rules: ["arrow"] },
+  { name: "semicolon after an arrow", chart: "graph TD\n  A --> ;B", rules: ["semicolon"] },
+  { name: "doubled semicolons in a classDef", chart: "graph TD\n  A --> B\n  classDef hot fill:#f00;;", rules: ["semicolon"] },
+  { name: "trailing comment", chart: "graph TD\n  A --> B %% main flow", rules: ["comment"] },
+  {
+    name: "everything at once, wrapped in prose",
+    chart: "Here is the architecture:\n```mermaid\nA[Client (web)] -> API[REST API] %% entry\nAPI -->|reads (cached)| DB[(Store)];;\nAPI --> end\n```\nLet me know!",
+    rules: ["fence", "header", "comment", "arrow", "label", "semicolon", "edge-label", "reserved-id"],
+  },
+];
+
+describe("repairChart corpus", () => {
+  for (const { name, chart, rules } of BROKEN) {
+    it(`repairs ${name}`, async () => {
+      if (!chart.includes("```")) expect(await parses(chart)).toBe(false);
+      const repaired = repairChart(chart);
+      expect([...repaired.fixes.map((f) => f.rule)].sort()).toEqual([...rules].sort());
+      expect(await parses(repaired.chart)).toBe(true);
+    });
+  }
+});
+
+describe("repairChart", () => {
+  it("leaves valid charts alone", () => {
+    const valid = [
+      "graph TD\n  A[Client] --> B{Auth?}\n  B -->|yes| C((Done))\n  B -.-> D[/Retry/]",
+      'flowchart LR\n  subgraph api [API]\n    A["Express (v4)"] ==> B[[Router]]\n  end\n  B --- C[(DB)]',
+      "graph TD;\n  A --> B;\n  style A fill:#0d1117,stroke:#00ff88",
+      "sequenceDiagram\n  Alice->>Bob: Hello\n  Bob-->>Alice: Hi (again)",
+      "graph TD\n  %% a comment on its own line\n  A --> Bend\n  A --> end_node",
+    ];
+    for (const chart of valid) expect(repairChart(chart)).toEqual({ chart, fixes: [] });
+  });
+
+  it("strips fences and adds a header", () => {
+    expect(repairChart("```mermaid\nA --> B\n```")).toEqual({
+      chart: "graph TD\nA --> B",
+      fixes: [
+        { rule: "fence", line: 1, detail: "removed markdown fences" },
+        { rule: "header", line: 1, detail: 'added missing "graph TD" header' },
+      ],
+    });
+  });
+
+  it("puts the header after frontmatter and init directives", () => {
+    const chart = "---\ntitle: Flow\n---\n%%{init: {'theme': 'dark'}}%%\nA --> B";
+    expect(repairChart(chart)).toEqual({
+      chart: "---\ntitle: Flow\n---\n%%{init: {'theme': 'dark'}}%%\ngraph TD\nA --> B",
+      fixes: [{ rule: "header", line: 5, detail: 'added missing "graph TD" header' }],
+    });
+  });
+
+  it("recognises every diagram type's header, behind frontmatter too", () => {
+    const charts = [
+      "C4Context\n  Person(user, \"User\")",
+      "quadrantChart\n  title Reach",
+      "requirementDiagram\n  requirement r { id: 1 }",
+      "xychart-beta\n  bar [1, 2]",
+      "sankey-beta\n  a,b,1",
+      "block-beta\n  a b",
+      "architecture-beta\n  service api(server)[API]",
+      "kanban\n  todo[Todo]",
+      "packet-beta\n  0-15: \"Port\"",
+      "stateDiagram-v2\n  [*] --> A",
+      "---\nconfig:\n  theme: dark\n---\nsequenceDiagram\n  A->B: hi",
+      "%%{init: {'theme': 'dark'}}%%\nclassDiagram\n  A <|-- B",
+    ];
+    for (const chart of charts) expect(repairChart(chart)).toEqual({ chart, fixes: [] });
+  });
+
+  it("only adds a flowchart header to something that reads as a flowchart", () => {
+    const prose = "Here is the architecture of the service.";
+    expect(repairChart(prose)).toEqual({ chart: prose, fixes: [] });
+    expect(repairChart("A[Client]\nA --> B").chart).toBe("graph TD\nA[Client]\nA --> B");
+  });
+
+  it("repairs flowcharts behind frontmatter without touching it", () => {
+    const { chart, fixes } = repairChart("---\ntitle: a -> b\n---\ngraph TD\n  A -> B");
+    expect(chart).toBe("---\ntitle: a -> b\n---\ngraph TD\n  A --> B");
+    expect(fixes.map((f) => [f.rule, f.line])).toEqual([["arrow", 5]]);
+  });
+
+  it("quotes labels and escapes quotes inside them", () => {
+    expect(repairChart('graph TD\n  A[He said "hi" (twice)] --> B').chart).toBe('graph TD\n  A["He said #quot;hi#quot; (twice)"] --> B');
+  });
+
+  it("reports the line each fix was made on", () => {
+    const { fixes } = repairChart("graph TD\n  A --> B\n  B -> C\n  C --> D[x (y)]");
+    expect(fixes.map((f) => [f.rule, f.line])).toEqual([["arrow", 3], ["label", 4]]);
+  });
+
+  it("does not touch arrows in sequence diagrams", () => {
+    const chart = "sequenceDiagram\n  A->B: sync\n  B->>A: reply";
+    expect(repairChart(chart).chart).toBe(chart);
+  });
+});
+
+describe("describeParseError", () => {
+  it("finds the line and names the unexpected token", async () => {
+    const err = await mermaid.parse("graph TD\n  A --> B\n  C --> D[x (y)]").catch((e) => e);
+    expect(describeParseError(err)).toEqual({ line: 3, message: 'unexpected "("' });
+  });
+
+  it("handles lexical errors and unknown shapes", () => {
+    expect(describeParseError(new Error("Lexical error on line 2. Unrecognized text.\n..."))).toEqual({ line: 2, message: "unrecognised text" });
+    expect(describeParseError("boom")).toEqual({ line: null, message: "boom" });
+  });
+});
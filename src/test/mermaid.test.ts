@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from "vitest";
+import { nextDiagramId, sanitizeChart } from "@/lib/mermaid";
+
+describe("sanitizeChart", () => {
+  it("strips markdown fences", () => {
+    expect(sanitizeChart("```mermaid\ngraph LR\n  A --> B\n```")).toBe("graph LR\n  A --> B");
+  });
+
+  it("defaults bare node definitions to a top-down flowchart", () => {
+    expect(sanitizeChart("A --> B")).toBe("graph TD\nA --> B");
+  });
+
+  it("keeps other diagram types as they are", () => {
+    expect(sanitizeChart("sequenceDiagram\n  A->>B: hi")).toBe("sequenceDiagram\n  A->>B: hi");
+    expect(sanitizeChart("stateDiagram-v2\n  [*] --> Idle")).toBe("stateDiagram-v2\n  [*] --> Idle");
+  });
+});
+
+describe("nextDiagramId", () => {
+  it("never repeats within a page", () => {
+    const ids = new Set(Array.from({ length: 50 }, nextDiagramId));
+    expect(ids.size).toBe(50);
+  });
+});
+
+describe("loadMermaid", () => {
+  it("retries the import after a failed load", async () => {
+    vi.resetModules();
+    let fail = true;
+    vi.doMock("mermaid", () => {
+      if (fail) throw new Error("chunk failed to load");
+      return { default: { version: "stub" } };
+    });
+    const { loadMermaid } = await import("@/lib/mermaid");
+    await expect(loadMermaid()).rejects.toThrow();
+    fail = false;
+    await expect(loadMermaid()).resolves.toEqual({ version: "stub" });
+    vi.doUnmock("mermaid");
+  });
+});
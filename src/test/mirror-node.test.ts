@@ -0,0 +1,200 @@
+/// <reference types="node" />
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { createHash } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  buildAuditTrail, createMirrorNodeClient, fetchAuditTrail, nextRunningHash, toMirrorTxId, verifyPayment,
+  type MirrorNodeClient, type TopicMessage,
+} from "@/lib/mirror-node";
+import { mirrorNodeUrl, setNetwork } from "@/lib/hedera-network";
+
+const b64 = (text: string) => Buffer.from(text).toString("base64");
+
+// A topic's messages with running hashes chained as consensus nodes do
+async function chainedMessages(topicId: string, texts: string[]): Promise<TopicMessage[]> {
+  let hash: Uint8Array = new Uint8Array(48);
+  const messages: TopicMessage[] = [];
+  for (const [i, text] of texts.entries()) {
+    const m = {
+      sequenceNumber: i + 1, consensusTimestamp: `17000001${String(i + 1).padStart(2, "0")}.000000500`, message: b64(text),
+      runningHash: "", runningHashVersion: 3, payerAccountId: "0.0.5",
+    };
+    hash = (await nextRunningHash(hash, m, topicId))!;
+    messages.push({ ...m, runningHash: Buffer.from(hash).toString("base64") });
+  }
+  return messages;
+}
+
+const toMirrorJson = (m: TopicMessage) => ({
+  sequence_number: m.sequenceNumber,
+  consensus_timestamp: m.consensusTimestamp,
+  message: m.message,
+  running_hash: m.runningHash,
+  running_hash_version: m.runningHashVersion,
+  payer_account_id: m.payerAccountId,
+});
+
+// A stand-in mirror node serving a few canned transactions and a two-page topic
+const FIXTURES: Record<string, unknown> = {
+  "/api/v1/transactions/0.0.5-1700000100-000000001": {
+    transactions: [{
+      transaction_id: "0.0.5-1700000100-000000001",
+      result: "SUCCESS",
+      consensus_timestamp: "1700000101.123456789",
+      nonce: 0,
+      transfers: [
+        { account: "0.0.5", amount: -5_000_000 },
+        { account: "0.0.800", amount: 4_990_000 },
+        { account: "0.0.98", amount: 10_000 },
+      ],
+    }],
+  },
+  "/api/v1/transactions/0.0.5-1700000200-000000002": {
+    transactions: [{
+      transaction_id: "0.0.5-1700000200-000000002",
+      result: "INSUFFICIENT_PAYER_BALANCE",
+      consensus_timestamp: "1700000201.000000000",
+      nonce: 0,
+      transfers: [{ account: "0.0.5", amount: -10_000 }, { account: "0.0.98", amount: 10_000 }],
+    }],
+  },
+};
+
+let server: Server;
+let mirror: MirrorNodeClient;
+
+beforeAll(async () => {
+  const topic = (await chainedMessages("0.0.900", [
+    JSON.stringify({ type: "agent_start", agent: "Code Reader" }), "plain log line", JSON.stringify({ type: "refund", amount: 0.5 }),
+  ])).map(toMirrorJson);
+  FIXTURES["/api/v1/topics/0.0.900/messages?order=asc&limit=100"] = {
+    messages: topic.slice(0, 2),
+    links: { next: "/api/v1/topics/0.0.900/messages?order=asc&limit=100&sequencenumber=gt:2" },
+  };
+  FIXTURES["/api/v1/topics/0.0.900/messages?order=asc&limit=100&sequencenumber=gt:2"] = { messages: topic.slice(2), links: { next: null } };
+
+  server = createServer((req, res) => {
+    const body = FIXTURES[decodeURIComponent(req.url ?? "")];
+    res.writeHead(body ? 200 : 404, { "content-type": "application/json" });
+    res.end(JSON.stringify(body ?? { _status: { messages: [{ message: "Not found" }] } }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  mirror = createMirrorNodeClient(() => `http://127.0.0.1:${port}`);
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe("mirror-node verification", () => {
+  it("converts SDK transaction ids to the mirror-node form", () => {
+    expect(toMirrorTxId("0.0.5@1700000100.000000001")).toBe("0.0.5-1700000100-000000001");
+  });
+
+  it("verifies amount, payer, payee and consensus time", async () => {
+    const result = await verifyPayment(
+      { txId: "0.0.5@1700000100.000000001", amount: 0.0499, payer: "0.0.5", payee: "0.0.800", notBefore: "2023-11-14T22:00:00Z" },
+      mirror,
+    );
+    expect(result).toEqual({ status: "verified", problems: [], consensusAt: "2023-11-14T22:15:01.000Z" });
+  });
+
+  it("flags a wrong amount, payer or a payment from before the run", async () => {
+    const result = await verifyPayment(
+      { txId: "0.0.5@1700000100.000000001", amount: 0.05, payer: "0.0.6", payee: "0.0.800", notBefore: "2024-01-01T00:00:00Z" },
+      mirror,
+    );
+    expect(result.status).toBe("mismatch");
+    expect(result.problems).toHaveLength(3);
+  });
+
+  it("allows for a browser clock running a few minutes fast", async () => {
+    const payment = { txId: "0.0.5@1700000100.000000001", amount: 0.0499 };
+    expect((await verifyPayment({ ...payment, notBefore: "2023-11-14T22:18:00Z" }, mirror)).status).toBe("verified");
+    const late = await verifyPayment({ ...payment, notBefore: "2023-11-14T22:25:00Z" }, mirror);
+    expect(late.problems).toEqual(["Settled at 2023-11-14T22:15:01.000Z, before the run started."]);
+  });
+
+  it("checks the agent's own account was credited", async () => {
+    const result = await verifyPayment({ txId: "0.0.5@1700000100.000000001", amount: 0.0499, payee: "0.0.801" }, mirror);
+    expect(result.status).toBe("mismatch");
+    expect(result.problems[0]).toContain("0.0.801 received 0");
+  });
+
+  it("flags failed transactions", async () => {
+    const result = await verifyPayment({ txId: "0.0.5@1700000200.000000002", amount: 0.0001 }, mirror);
+    expect(result.status).toBe("mismatch");
+    expect(result.problems[0]).toContain("INSUFFICIENT_PAYER_BALANCE");
+  });
+
+  it("stays pending until the mirror node has the transaction", async () => {
+    const result = await verifyPayment({ txId: "0.0.5@1700000300.000000003", amount: 1 }, mirror);
+    expect(result.status).toBe("pending");
+  });
+
+  it("looks a payment up on the run's network, not the selected one", async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 404 }));
+    vi.stubGlobal("fetch", fetch);
+    setNetwork("testnet");
+    try {
+      await verifyPayment({ txId: "0.0.5@1700000100.000000001", amount: 1 }, createMirrorNodeClient(), "mainnet");
+      expect(fetch.mock.calls[0][0]).toBe(mirrorNodeUrl("mainnet") + "/api/v1/transactions/0.0.5-1700000100-000000001");
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("HCS audit trail", () => {
+  it("follows pagination and decodes each message", async () => {
+    const trail = await fetchAuditTrail("0.0.900", mirror);
+    expect(trail.intact).toBe(true);
+    expect(trail.hashesChecked).toBe(3);
+    expect(trail.entries.map((e) => e.sequenceNumber)).toEqual([1, 2, 3]);
+    expect(trail.entries[0].data).toEqual({ type: "agent_start", agent: "Code Reader" });
+    expect(trail.entries[1]).toMatchObject({ data: null, text: "plain log line" });
+  });
+
+  it("marks a gap in the sequence", async () => {
+    const [one, two, , four] = await chainedMessages("0.0.900", ["a", "b", "c", "d"]);
+    const trail = await buildAuditTrail([one, two, four], "0.0.900");
+    expect(trail.intact).toBe(false);
+    expect(trail.entries[2].problem).toContain("#3");
+  });
+
+  it("catches a message that was altered after the fact", async () => {
+    const messages = await chainedMessages("0.0.900", ["a", "b", "c"]);
+    messages[1] = { ...messages[1], message: b64("B") };
+    const trail = await buildAuditTrail(messages, "0.0.900");
+    expect(trail.intact).toBe(false);
+    expect(trail.entries.map((e) => e.problem)).toEqual([undefined, "Running hash does not follow from the previous message.", undefined]);
+  });
+
+  it("only chains hashes on the topic they were computed for", async () => {
+    const trail = await buildAuditTrail(await chainedMessages("0.0.900", ["a"]), "0.0.901");
+    expect(trail.intact).toBe(false);
+  });
+
+  it("leaves running hash versions it cannot recompute unchecked", async () => {
+    const [m] = await chainedMessages("0.0.900", ["a"]);
+    const trail = await buildAuditTrail([{ ...m, runningHashVersion: 2 }], "0.0.900");
+    expect(trail).toMatchObject({ intact: true, hashesChecked: 0 });
+  });
+
+  it("hashes the fields in the consensus nodes' ObjectOutputStream layout", async () => {
+    const message: TopicMessage = {
+      sequenceNumber: 7, consensusTimestamp: "1700000123.000000456", message: b64("hello"),
+      runningHash: "", runningHashVersion: 3, payerAccountId: "0.0.5",
+    };
+    const previous = new Uint8Array(48).fill(1);
+    const long = (v: number) => { const b = Buffer.alloc(8); b.writeBigInt64BE(BigInt(v)); return b; };
+    const int = (v: number) => { const b = Buffer.alloc(4); b.writeInt32BE(v); return b; };
+    const fields = Buffer.concat([previous, long(3), long(0), long(0), long(5), long(0), long(0), long(900), long(1700000123), int(456), long(7)]);
+    const stream = Buffer.concat([
+      Buffer.from("aced0005", "hex"), Buffer.from([0x77, fields.length]), fields,
+      Buffer.from("757200025b42acf317f8060854e00200007870", "hex"), int(48), createHash("sha384").update("hello").digest(),
+    ]);
+    const expected = createHash("sha384").update(stream).digest();
+    expect(Buffer.from((await nextRunningHash(previous, message, "0.0.900"))!).equals(expected)).toBe(true);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import type { HistoryEntry } from "@/lib/history-store";
+import { ledgerRows, ledgerToCsv, ledgerTotals, receiptFromRun } from "@/lib/receipt";
+
+const agent = (name: string, payment: number, txId: string) =>
+  ({ name, key: "", status: "complete" as const, payment, txId, allocation: 25, paidAt: "2026-01-02T10:00:05.000Z" });
+
+const funded: HistoryEntry = {
+  id: "run-2",
+  repoUrl: "https://github.com/acme/app",
+  repoMeta: { repoName: "acme/app", fileCount: 10, languages: ["TypeScript"] },
+  data: {},
+  agents: [agent("Code Reader Agent", 0.4, "0.0.9@1.1"), agent("Insight Agent", 0.35, "0.0.9@1.2")],
+  budget: 1.5,
+  refund: { amount: 0.75, txId: "0.0.9@1.3", at: "2026-01-02T10:01:00.000Z" },
+  funding: { txId: "0.0.1001@1.0", accountId: "0.0.1001", amount: 1.5 },
+  network: "testnet",
+  createdAt: "2026-01-02T10:00:00.000Z",
+};
+
+const anonymous: HistoryEntry = {
+  ...funded,
+  id: "run-1",
+  agents: [agent("Simplifier Agent", 0.2, "0.0.9@0.1")],
+  budget: 0.5,
+  refund: { amount: 0.3, txId: "0.0.9@0.2" },
+  funding: undefined,
+  createdAt: "2026-01-01T09:00:00.000Z",
+};
+
+describe("receipts and ledger", () => {
+  it("builds a receipt from a history entry", () => {
+    const receipt = receiptFromRun(funded);
+    expect(receipt.spent).toBeCloseTo(0.75);
+    expect(receipt.payments.map((p) => p.txId)).toEqual(["0.0.9@1.1", "0.0.9@1.2"]);
+    expect(receipt.funding?.accountId).toBe("0.0.1001");
+  });
+
+  it("lists transfers oldest run first and only moves the wallet for funded runs", () => {
+    const rows = ledgerRows([funded, anonymous].map(receiptFromRun));
+    expect(rows.map((r) => `${r.runId}:${r.type}`)).toEqual([
+      "run-1:agent payment", "run-1:refund",
+      "run-2:escrow", "run-2:agent payment", "run-2:agent payment", "run-2:refund",
+    ]);
+    expect(rows.find((r) => r.runId === "run-1" && r.type === "refund")?.walletDelta).toBe(0);
+
+    const totals = ledgerTotals(rows);
+    expect(totals.escrowed).toBe(1.5);
+    expect(totals.refunded).toBe(0.75);
+    expect(totals.netWalletSpend).toBeCloseTo(0.75);
+  });
+
+  it("exports one CSV line per transfer", () => {
+    const csv = ledgerToCsv(ledgerRows([receiptFromRun(funded)]));
+    const lines = csv.trim().split("\r\n");
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toBe('"2026-01-02T10:00:00.000Z","run-2","acme/app","testnet","escrow","PayStream escrow","1.5","-1.5","0.0.1001@1.0"');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { buildSarif, parseLocation, sarifLevel } from "@/lib/sarif";
+
+describe("parseLocation", () => {
+  it("reads file, line ranges and columns in the common shapes", () => {
+    expect(parseLocation("src/api/db.ts")).toEqual({ uri: "src/api/db.ts" });
+    expect(parseLocation("src/api/db.ts:42")).toEqual({ uri: "src/api/db.ts", region: { startLine: 42 } });
+    expect(parseLocation("./src/api/db.ts:42-58")).toEqual({ uri: "src/api/db.ts", region: { startLine: 42, endLine: 58 } });
+    expect(parseLocation("src/api/db.ts:42:7")).toEqual({ uri: "src/api/db.ts", region: { startLine: 42, startColumn: 7 } });
+    expect(parseLocation("server.js#L10-L20")).toEqual({ uri: "server.js", region: { startLine: 10, endLine: 20 } });
+    expect(parseLocation("`routes/auth.py` (lines 12 to 30)")).toEqual({ uri: "routes/auth.py", region: { startLine: 12, endLine: 30 } });
+  });
+
+  it("returns null when no path is mentioned", () => {
+    expect(parseLocation("Multiple files")).toBeNull();
+    expect(parseLocation("Throughout the codebase")).toBeNull();
+  });
+
+  it("does not mistake prose for a path", () => {
+    expect(parseLocation("e.g. the auth middleware")).toBeNull();
+    expect(parseLocation("Node.js runtime config")).toBeNull();
+    expect(parseLocation("Blocking I/O in handlers")).toBeNull();
+    expect(parseLocation("etc.")).toBeNull();
+  });
+
+  it("accepts bare file names only with a known extension", () => {
+    expect(parseLocation("package.json")).toEqual({ uri: "package.json" });
+    expect(parseLocation("Dockerfile line 3")).toEqual({ uri: "Dockerfile", region: { startLine: 3 } });
+    expect(parseLocation(".env")).toEqual({ uri: ".env" });
+    expect(parseLocation("config.v2")).toBeNull();
+    expect(parseLocation(".NET")).toBeNull();
+    expect(parseLocation("src/config")).toEqual({ uri: "src/config" });
+  });
+});
+
+describe("buildSarif", () => {
+  it("maps severities to levels and gives every result a location", () => {
+    const { log, skipped } = buildSarif([
+      { severity: "high", issue: "SQL injection", location: "api/db.ts:12", suggestion: "Use parameterised queries" },
+      { severity: "low", issue: "Verbose logging", location: "src/log.ts", suggestion: "" },
+    ], "https://github.com/acme/app");
+
+    const [run] = log.runs;
+    expect(skipped).toBe(0);
+    expect(run.results.map((r) => r.level)).toEqual(["error", "note"]);
+    expect(run.results[0].locations[0].physicalLocation.region).toEqual({ startLine: 12 });
+    expect(run.results[0].message.text).toBe("SQL injection\n\nSuggestion: Use parameterised queries");
+    expect(run.tool.driver.rules.map((r) => r.id)).toEqual(["paystream/sql-injection", "paystream/verbose-logging"]);
+    expect(sarifLevel("Unknown")).toBe("warning");
+  });
+
+  it("leaves out and counts flags without a file location", () => {
+    const { log, skipped } = buildSarif([
+      { severity: "low", issue: "No tests", location: "Whole repo", suggestion: "" },
+      { severity: "medium", issue: "Old runtime", location: "Node.js", suggestion: "" },
+      { severity: "high", issue: "Secrets in repo", location: ".env", suggestion: "" },
+    ]);
+    expect(skipped).toBe(2);
+    expect(log.runs[0].results.map((r) => r.ruleId)).toEqual(["paystream/secrets-in-repo"]);
+    expect(log.runs[0].tool.driver.rules).toHaveLength(1);
+    expect(log.runs[0].results.every((r) => r.locations.length === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { decodeCss, sanitizeSvg } from "@/lib/svg-sanitize";
+import { hardenChart } from "@/lib/mermaid";
+
+const parse = (markup: string) => {
+  const holder = document.createElement("div");
+  holder.append(sanitizeSvg(markup));
+  return holder;
+};
+
+describe("sanitizeSvg", () => {
+  it("removes script, foreignObject and remote images", () => {
+    const out = parse(
+      '<svg><script>alert(1)</script><g class="node"><rect/><text>API</text></g>' +
+      '<foreignObject><iframe src="https://evil.example"></iframe><div>label</div></foreignObject>' +
+      '<image href="https://tracker.example/p.png"/><animate attributeName="href" to="javascript:alert(1)"/></svg>',
+    );
+    expect(out.querySelector("script, iframe, animate")).toBeNull();
+    expect(out.querySelector("image")?.getAttribute("href") ?? null).toBeNull();
+    expect(out.querySelector("g.node text")?.textContent).toBe("API");
+    expect(out.querySelector("foreignObject, div")).toBeNull();
+  });
+
+  it("strips event handlers and non-local links but keeps marker references", () => {
+    const out = parse(
+      '<svg><g onclick="alert(1)" onmouseover="x()"><a href="javascript:alert(1)" xlink:href="https://x.example"><text>go</text></a></g>' +
+      '<path marker-end="url(#arrowhead)"/><use href="#shape"/></svg>',
+    );
+    const g = out.querySelector("g")!;
+    expect(g.getAttribute("onclick")).toBeNull();
+    expect(g.getAttribute("onmouseover")).toBeNull();
+    expect(out.querySelector("a")!.getAttribute("href")).toBeNull();
+    expect(out.querySelector("a")!.getAttribute("xlink:href")).toBeNull();
+    expect(out.querySelector("path")!.getAttribute("marker-end")).toBe("url(#arrowhead)");
+    expect(out.querySelector("use")!.getAttribute("href")).toBe("#shape");
+  });
+
+  it("cleans CSS that reaches outside the document", () => {
+    const out = parse(
+      '<svg><style>@import url("https://x.example/a.css"); #m .node { fill: url(https://x.example/bg.png); stroke: url(#grad); }</style>' +
+      '<rect style="background: url(https://x.example/t.png)"/><rect style="fill: red"/></svg>',
+    );
+    const css = out.querySelector("style")!.textContent!;
+    expect(css).not.toContain("@import");
+    expect(css).not.toContain("x.example");
+    expect(css).toContain("url(#grad)");
+    const [remote, plain] = out.querySelectorAll("rect");
+    expect(remote.getAttribute("style")).toBeNull();
+    expect(plain.getAttribute("style")).toBe("fill: red");
+  });
+
+  it("sees through CSS escapes and image-set()", () => {
+    const out = parse(
+      '<svg><style>.a { fill: \\75 rl(https://x.example/a.png); } .b { background: image-set("https://x.example/b.png" 1x); } .c { fill: red; }</style>' +
+      '<rect style="background: \\75\\72\\6c(https://x.example/t.png)"/><rect style="background: -webkit-image-set(url(https://x.example/u.png) 1x)"/></svg>',
+    );
+    const css = out.querySelector("style")!.textContent!;
+    expect(css).not.toContain("x.example");
+    expect(css).toContain("fill: red");
+    for (const rect of out.querySelectorAll("rect")) expect(rect.getAttribute("style")).toBeNull();
+  });
+
+  it("keeps HTML labels and web links in a loose render, but nothing that runs", () => {
+    const holder = document.createElement("div");
+    holder.append(sanitizeSvg(
+      '<svg><script>alert(1)</script><g class="node"><foreignObject><div xmlns="http://www.w3.org/1999/xhtml">' +
+      '<span class="nodeLabel"><p>API<br/><b>gateway</b></p></span><img src="x" onerror="alert(1)"/><script>alert(2)</script></div></foreignObject></g>' +
+      '<a xlink:href="https://example.com/docs"><text>docs</text></a><a href="javascript:alert(1)"><text>x</text></a><image href="https://x.example/p.png"/></svg>',
+      { loose: true },
+    ));
+    expect(holder.querySelector("script")).toBeNull();
+    expect(holder.querySelector("foreignObject .nodeLabel b")?.textContent).toBe("gateway");
+    expect(holder.querySelector("img")?.getAttribute("onerror") ?? null).toBeNull();
+    const [docs, js] = holder.querySelectorAll("a");
+    expect(docs.getAttribute("xlink:href")).toBe("https://example.com/docs");
+    expect(js.getAttribute("href")).toBeNull();
+    expect(holder.querySelector("image")?.getAttribute("href") ?? null).toBeNull();
+  });
+
+  it("returns nodes rather than markup", () => {
+    expect(sanitizeSvg("<svg><rect/></svg>").firstChild?.nodeName).toBe("svg");
+  });
+});
+
+describe("decodeCss", () => {
+  it("writes out hex and literal escapes and drops comments", () => {
+    expect(decodeCss("\\75 rl(a) \\u\\72l(b) /* x */ u\\rl(c)")).toBe("url(a) url(b)  url(c)");
+  });
+});
+
+describe("hardenChart", () => {
+  it("comments out config directives, frontmatter and click callbacks, keeping line numbers", () => {
+    const chart = [
+      "---",
+      "config:",
+      "  securityLevel: loose",
+      "---",
+      "graph TD",
+      "  %%{init: {'themeCSS': '.node{background:url(https://x.example)}'}}%%",
+      "  A --> B",
+      '  click A "javascript:alert(1)"',
+      "  click B callback",
+    ].join("\n");
+    expect(hardenChart(chart).split("\n")).toEqual(["%%", "%%", "%%", "%%", "graph TD", "%%", "  A --> B", "%%", "%%"]);
+  });
+
+  it("leaves nodes that merely start with those words", () => {
+    const chart = "graph TD\n  clicker --> links\n  link --> B";
+    expect(hardenChart(chart)).toBe(chart);
+  });
+});
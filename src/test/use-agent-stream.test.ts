@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useAgentStream } from "@/hooks/use-agent-stream";
+import { analyzeRepo } from "@/lib/api";
+
+// Just enough EventSource to drive the hook: tests push messages and errors.
+// Like the real one it keeps the last `id:` and reports it on later events.
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+  private lastEventId = "";
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  /** Send an event, with its own SSE `id:` when one is given. */
+  emit(data: object, id?: string) {
+    if (id !== undefined) this.lastEventId = id;
+    act(() => this.onmessage?.(new MessageEvent("message", { data: JSON.stringify(data), lastEventId: this.lastEventId })));
+  }
+
+  fail() {
+    act(() => this.onerror?.());
+  }
+}
+
+const latest = () => FakeEventSource.instances[FakeEventSource.instances.length - 1];
+
+beforeEach(() => {
+  FakeEventSource.instances = [];
+  vi.stubGlobal("EventSource", FakeEventSource);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+const started = { type: "run_started", runId: "run-1" };
+const step = (agent: string) => ({ type: "step_start", agent, task: "t" });
+const refund = { type: "refund", amount: 0.5, txId: "0.0.1@1.1" };
+
+describe("useAgentStream events", () => {
+  it("delivers events that carry no id of their own", () => {
+    const onEvent = vi.fn();
+    const { result } = renderHook(() => useAgentStream({ onEvent }));
+    act(() => result.current.start("/api/run?task=t"));
+    const source = latest();
+
+    source.emit(started, "1");
+    source.emit(step("a"));
+    source.emit(step("b"));
+    source.emit(step("c"), "2");
+    expect(onEvent.mock.calls.map(([e]) => e.agent ?? e.type)).toEqual(["run_started", "a", "b", "c"]);
+    expect(result.current.status).toBe("streaming");
+  });
+
+  it("closes the stream after a terminal event", () => {
+    const { result } = renderHook(() => useAgentStream({ onEvent: () => {} }));
+    act(() => result.current.start("/api/run?task=t"));
+    latest().emit(refund, "1");
+    expect(latest().closed).toBe(true);
+    expect(result.current.status).toBe("done");
+  });
+});
+
+describe("useAgentStream reconnect", () => {
+  it("resumes from the last event with doubling backoff", () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() => useAgentStream({ onEvent: () => {}, reconnect: { baseDelayMs: 100 } }));
+    act(() => result.current.start("/api/analyze?repo=r&runId=run-1"));
+    latest().emit(started, "1");
+    latest().emit(step("a"), "2");
+
+    latest().fail();
+    expect(result.current.status).toBe("reconnecting");
+    expect(result.current.attempt).toBe(1);
+    act(() => vi.advanceTimersByTime(99));
+    expect(FakeEventSource.instances).toHaveLength(1);
+    act(() => vi.advanceTimersByTime(1));
+    expect(FakeEventSource.instances).toHaveLength(2);
+    const resumed = new URL(latest().url);
+    expect(resumed.searchParams.get("runId")).toBe("run-1");
+    expect(resumed.searchParams.get("lastEventId")).toBe("2");
+
+    // Still down: the next attempt waits twice as long
+    latest().fail();
+    expect(result.current.attempt).toBe(2);
+    act(() => vi.advanceTimersByTime(199));
+    expect(FakeEventSource.instances).toHaveLength(2);
+    act(() => vi.advanceTimersByTime(1));
+    expect(FakeEventSource.instances).toHaveLength(3);
+  });
+
+  it("skips what the server replays, including events that followed it without an id", () => {
+    vi.useFakeTimers();
+    const onEvent = vi.fn();
+    const { result } = renderHook(() => useAgentStream({ onEvent, reconnect: { baseDelayMs: 10 } }));
+    act(() => result.current.start("/api/run?task=t&runId=run-1"));
+    latest().emit(started, "1");
+    latest().emit(step("a"), "2");
+    latest().emit(step("b"));
+    latest().fail();
+    act(() => vi.advanceTimersByTime(10));
+
+    latest().emit(step("a"), "2");
+    latest().emit(step("b"));
+    latest().emit(step("c"), "3");
+    latest().emit(step("d"));
+    expect(onEvent.mock.calls.map(([e]) => e.agent ?? e.type)).toEqual(["run_started", "a", "b", "c", "d"]);
+    expect(result.current.attempt).toBe(0);
+    expect(result.current.status).toBe("streaming");
+  });
+
+  it("gives up without resubmitting a run the server never acknowledged", () => {
+    const onConnectionError = vi.fn();
+    const { result } = renderHook(() => useAgentStream({ onEvent: () => {}, onConnectionError }));
+    act(() => result.current.start("/api/run?task=t&runId=run-1"));
+    latest().fail();
+    expect(result.current.status).toBe("failed");
+    expect(onConnectionError).toHaveBeenCalledOnce();
+    expect(FakeEventSource.instances).toHaveLength(1);
+  });
+
+  it("fails once the retries run out", () => {
+    vi.useFakeTimers();
+    const onConnectionError = vi.fn();
+    const { result } = renderHook(() => useAgentStream({ onEvent: () => {}, onConnectionError, reconnect: { retries: 2, baseDelayMs: 10 } }));
+    act(() => result.current.start("/api/run?task=t"));
+    latest().emit(started, "1");
+    for (let i = 0; i < 2; i++) {
+      latest().fail();
+      act(() => vi.runOnlyPendingTimers());
+    }
+    latest().fail();
+    expect(result.current.status).toBe("failed");
+    expect(onConnectionError).toHaveBeenCalledOnce();
+    expect(FakeEventSource.instances).toHaveLength(3);
+  });
+
+  it("closes the connection on unmount", () => {
+    const { result, unmount } = renderHook(() => useAgentStream({ onEvent: () => {} }));
+    act(() => result.current.start("/api/run?task=t"));
+    unmount();
+    expect(latest().closed).toBe(true);
+  });
+});
+
+describe("useAgentStream cancel", () => {
+  it("knows the run id before the server has said anything", () => {
+    const { result } = renderHook(() => useAgentStream({ onEvent: () => {} }));
+    act(() => result.current.start(analyzeRepo({ repo: "r", budget: 1, runId: "run-7" })));
+    expect(result.current.status).toBe("connecting");
+    expect(result.current.runId).toBe("run-7");
+  });
+
+  it("closes the stream and ignores anything still in flight", () => {
+    const onEvent = vi.fn();
+    const { result } = renderHook(() => useAgentStream({ onEvent }));
+    act(() => result.current.start(analyzeRepo({ repo: "r", budget: 1, runId: "run-7" })));
+    const source = latest();
+
+    act(() => result.current.cancel());
+    expect(source.closed).toBe(true);
+    expect(result.current.status).toBe("cancelled");
+
+    source.emit({ type: "refund", amount: 1, txId: "0.0.1@1.1" });
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { usePaymentVerification } from "@/hooks/use-payment-verification";
+import { setMirrorNodeClient, type MirrorTransaction } from "@/lib/mirror-node";
+import { getNetwork, setNetwork, type HederaNetwork } from "@/lib/hedera-network";
+
+// A payment that only exists on mainnet, as a reopened mainnet run's would
+const MAINNET_TX: MirrorTransaction = {
+  transactionId: "0.0.5-1700000100-000000001",
+  result: "SUCCESS",
+  consensusTimestamp: "1700000101.000000000",
+  transfers: [{ account: "0.0.5", amount: -10_000_000 }, { account: "0.0.800", amount: 10_000_000 }],
+};
+
+const payments = [{ txId: "0.0.5@1700000100.000000001", amount: 0.1, payee: "0.0.800" }];
+
+afterEach(() => {
+  setMirrorNodeClient(null);
+  setNetwork("testnet");
+});
+
+describe("usePaymentVerification", () => {
+  it("checks a past run's payments on the network it ran on", async () => {
+    const asked: (HederaNetwork | undefined)[] = [];
+    setMirrorNodeClient({
+      async getTransaction(_txId, network = getNetwork()) {
+        asked.push(network);
+        return network === "mainnet" ? MAINNET_TX : null;
+      },
+      getTopicMessages: async () => [],
+    });
+    setNetwork("testnet");
+
+    const { result } = renderHook(() => usePaymentVerification(payments, "mainnet"));
+    await waitFor(() => expect(result.current[payments[0].txId]?.status).toBe("verified"));
+    expect(asked).toEqual(["mainnet"]);
+  });
+});
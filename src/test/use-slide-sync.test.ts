@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useSlideSync } from "@/hooks/use-slide-sync";
+
+// In-process BroadcastChannel: messages go to every other open channel of
+// the same name, never back to the sender, and — like the real one — only
+// later, when the test calls deliver().
+class FakeBroadcastChannel {
+  static open: FakeBroadcastChannel[] = [];
+  static queue: (() => void)[] = [];
+  onmessage: ((e: MessageEvent) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.open.push(this);
+  }
+
+  postMessage(data: unknown) {
+    for (const peer of FakeBroadcastChannel.open) {
+      if (peer !== this && peer.name === this.name) {
+        FakeBroadcastChannel.queue.push(() => peer.onmessage?.(new MessageEvent("message", { data })));
+      }
+    }
+  }
+
+  close() {
+    FakeBroadcastChannel.open = FakeBroadcastChannel.open.filter((c) => c !== this);
+  }
+}
+
+/** Hand over everything posted so far, including the replies it triggers. */
+const deliver = () =>
+  act(() => {
+    while (FakeBroadcastChannel.queue.length) FakeBroadcastChannel.queue.shift()!();
+  });
+
+/** A stranger on the channel, posting whatever it likes. */
+const intruder = (name: string) => {
+  const channel = new FakeBroadcastChannel(name);
+  return (data: unknown) => {
+    channel.postMessage(data);
+    deliver();
+  };
+};
+
+beforeEach(() => {
+  FakeBroadcastChannel.open = [];
+  FakeBroadcastChannel.queue = [];
+  vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("useSlideSync", () => {
+  it("keeps every window on the same slide", () => {
+    const audience = renderHook(() => useSlideSync("deck", 5));
+    const presenter = renderHook(() => useSlideSync("deck", 5));
+    deliver();
+
+    act(() => presenter.result.current.next());
+    deliver();
+    expect(audience.result.current.index).toBe(1);
+    act(() => audience.result.current.goTo(3));
+    deliver();
+    expect(presenter.result.current.index).toBe(3);
+  });
+
+  it("tells a window that joins late where the deck is", () => {
+    const audience = renderHook(() => useSlideSync("deck", 5));
+    act(() => audience.result.current.goTo(2));
+
+    const presenter = renderHook(() => useSlideSync("deck", 5));
+    deliver();
+    expect(presenter.result.current.index).toBe(2);
+  });
+
+  it("answers a hello sent before the joining window knows the deck length", () => {
+    const audience = renderHook(() => useSlideSync("deck", 5));
+    act(() => audience.result.current.goTo(4));
+
+    const presenter = renderHook(({ count }) => useSlideSync("deck", count), { initialProps: { count: 0 } });
+    deliver();
+    presenter.rerender({ count: 5 });
+    expect(presenter.result.current.index).toBe(4);
+  });
+
+  it("clamps or ignores slide indexes that don't fit the deck", () => {
+    const { result } = renderHook(() => useSlideSync("deck", 5));
+    const post = intruder("deck");
+
+    post({ type: "goto", index: 99 });
+    expect(result.current.index).toBe(4);
+    post({ type: "goto", index: -3 });
+    expect(result.current.index).toBe(0);
+    post({ type: "goto", index: 2 });
+    post({ type: "goto", index: 1.5 });
+    post({ type: "goto", index: "3" });
+    post({ type: "goto" });
+    expect(result.current.index).toBe(2);
+  });
+
+  it("ignores other decks and closes its channel on unmount", () => {
+    const { result, unmount } = renderHook(() => useSlideSync("deck", 5));
+    intruder("other-deck")({ type: "goto", index: 3 });
+    expect(result.current.index).toBe(0);
+
+    unmount();
+    expect(FakeBroadcastChannel.open.map((c) => c.name)).toEqual(["other-deck"]);
+  });
+});
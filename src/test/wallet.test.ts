@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createElement, type ReactNode } from "react";
+import { renderHook, waitFor } from "@testing-library/react";
+import { WalletError, getWalletAdapter, loadWalletSession, saveWalletSession } from "@/lib/wallet";
+import { getNetwork } from "@/lib/hedera-network";
+import { createMockWallet } from "@/lib/wallet-mock";
+import WalletProvider from "@/components/WalletProvider";
+import { useWallet } from "@/hooks/use-wallet";
+
+describe("mock wallet", () => {
+  it("connects as a fixed account and signs bytes unchanged", async () => {
+    const wallet = createMockWallet({ accountId: "0.0.42", balance: 12.5 });
+    expect(wallet.accountId()).toBeNull();
+    await expect(wallet.balance()).rejects.toBeInstanceOf(WalletError);
+
+    expect(await wallet.connect()).toBe("0.0.42");
+    expect(await wallet.balance()).toBe(12.5);
+    const tx = new Uint8Array([1, 2, 3]);
+    expect(await wallet.signTransaction(tx)).toBe(tx);
+
+    await wallet.disconnect();
+    expect(wallet.accountId()).toBeNull();
+  });
+
+  it("can simulate a rejected pairing", async () => {
+    await expect(createMockWallet({ reject: true }).connect()).rejects.toMatchObject({ code: "rejected" });
+  });
+
+  it("is served from the registry as a single instance", async () => {
+    const a = await getWalletAdapter("mock");
+    expect(await getWalletAdapter("mock")).toBe(a);
+  });
+});
+
+describe("wallet session", () => {
+  it("round-trips through localStorage and resumes the mock account", async () => {
+    saveWalletSession({ walletId: "mock", accountId: "0.0.1001", network: "testnet" });
+    const session = loadWalletSession();
+    expect(session).toEqual({ walletId: "mock", accountId: "0.0.1001", network: "testnet" });
+
+    const wallet = createMockWallet();
+    expect(await wallet.restore("0.0.9999")).toBe(false);
+    expect(await wallet.restore(session!.accountId)).toBe(true);
+    expect(wallet.accountId()).toBe("0.0.1001");
+
+    saveWalletSession(null);
+    expect(loadWalletSession()).toBeNull();
+  });
+
+  it("ignores corrupt stored sessions", () => {
+    localStorage.setItem("paystream.wallet", "{not json");
+    expect(loadWalletSession()).toBeNull();
+  });
+});
+
+describe("WalletProvider restore", () => {
+  const wrapper = ({ children }: { children: ReactNode }) => createElement(WalletProvider, null, children);
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    saveWalletSession(null);
+  });
+
+  it("resumes a saved mock session while the mock wallet is offered", async () => {
+    saveWalletSession({ walletId: "mock", accountId: "0.0.1001", network: getNetwork() });
+    const { result } = renderHook(() => useWallet(), { wrapper });
+    await waitFor(() => expect(result.current.status).toBe("connected"));
+    expect(result.current.accountId).toBe("0.0.1001");
+  });
+
+  it("discards a saved mock session once the mock wallet is turned off", () => {
+    vi.stubEnv("VITE_WALLET_MOCK", "false");
+    saveWalletSession({ walletId: "mock", accountId: "0.0.1001", network: getNetwork() });
+    const { result } = renderHook(() => useWallet(), { wrapper });
+    expect(result.current.status).toBe("disconnected");
+    expect(result.current.wallet).toBeNull();
+    expect(loadWalletSession()).toBeNull();
+  });
+});